@@ -37,6 +37,13 @@ assertType<P.CoderType<string>>(P.string(null));
 assertType<P.CoderType<string>>(P.cstring);
 assertType<P.CoderType<P.Bytes>>(P.bytes(null));
 assertType<P.CoderType<string>>(P.hex(null));
+assertType<P.CoderType<number>>(P.uleb128);
+assertType<P.CoderType<number>>(P.sleb128);
+assertType<P.CoderType<bigint>>(P.uleb128big);
+assertType<P.CoderType<bigint>>(P.sleb128big);
+assertType<P.CoderType<number>>(P.compactSize);
+assertType<P.CoderType<number>>(P.varint.quic);
+assertType<P.CoderType<bigint>>(P.varint.sqliteBig);
 let emptyBytes = P.EMPTY;
 emptyBytes = 1 as any as P.Bytes;
 assertType<P.Bytes>(emptyBytes);
@@ -130,3 +137,114 @@ const m1: base.Coder<number | undefined, string> = 1 as any;
 const m2: base.Coder<bigint | undefined, boolean> = 1 as any;
 const m3: base.Coder<[bigint] | undefined, 'omg'> = 1 as any;
 assertType<base.Coder<number | bigint | [bigint], string | boolean>>(P.coders.match([m1, m2, m3]));
+
+// Protobuf
+const pbMsg = P.protobuf.message({
+  a: [1, P.protobuf.int32],
+  b: [2, P.protobuf.repeated(P.protobuf.string)],
+  c: [3, P.protobuf.message({ d: [1, P.protobuf.uint64] })],
+});
+assertType<
+  P.CoderType<{
+    a?: number;
+    b?: string[];
+    c?: { d?: bigint; $unknown?: P.ProtoUnknown[] };
+    $unknown?: P.ProtoUnknown[];
+  }>
+>(pbMsg);
+
+// CBOR
+assertType<P.CoderType<P.CborValue>>(P.cbor);
+assertType<P.CoderType<P.CborValue>>(P.cbor.deterministic);
+
+// MessagePack
+assertType<P.CoderType<P.MsgpackValue>>(P.msgpack);
+assertType<P.CoderType<P.MsgpackValue>>(P.msgpack.ext({ 1: P.U8 }));
+
+// RLP
+assertType<P.CoderType<P.RlpValue>>(P.rlp);
+assertType<P.CoderType<{ nonce: bigint; to: Uint8Array; list: P.RlpValue }>>(
+  P.rlp.struct({ nonce: P.rlp.uint, to: P.bytes(20), list: P.rlp })
+);
+// ASN.1
+assertType<P.CoderType<bigint>>(P.asn1.integer);
+assertType<P.CoderType<bigint>>(P.asn1.ber.integer);
+assertType<P.CoderType<{ a: bigint; b?: string; c: boolean }>>(
+  P.asn1.sequence({
+    a: P.asn1.explicit(0, P.asn1.integer),
+    b: P.asn1.optional(P.asn1.oid),
+    c: P.asn1.default(P.asn1.boolean, false),
+  })
+);
+assertType<P.CoderType<{ TAG: 'num'; data: bigint } | { TAG: 'str'; data: string }>>(
+  P.asn1.choice({ num: P.asn1.integer, str: P.asn1.utf8String })
+);
+// Streaming
+assertType<P.DecoderStream<{ a: number; b: string }>>(
+  P.stream(P.struct({ a: P.U8, b: P.string(P.U8) }))
+);
+assertType<{ a: number; b: string }[]>(
+  P.stream(P.struct({ a: P.U8, b: P.string(P.U8) })).push(P.EMPTY)
+);
+assertType<TransformStream<Uint8Array, number>>(P.decoderStream(P.U8));
+assertType<TransformStream<string, Uint8Array>>(P.encoderStream(P.cstring));
+assertType<AsyncGenerator<bigint, void, undefined>>(P.decodeAll(P.U64BE, [P.EMPTY]));
+// encodedLength / encodeInto
+assertType<number>(P.U32LE.encodedLength!(1));
+assertType<number>(P.struct({ a: P.U8 }).encodeInto!({ a: 1 }, new Uint8Array(1), 0));
+assertType<{ value: { a: number }; bytesRead: number }>(
+  P.struct({ a: P.U8 }).decodePrefix!(new Uint8Array(1), 0)
+);
+// Hand-written coders don't need them
+assertType<P.CoderType<number>>({
+  encodeStream: (w, value) => w.byte(value),
+  decodeStream: (r) => r.byte(),
+  encode: (value) => Uint8Array.of(value),
+  decode: (data) => data[0],
+});
+// compile
+assertType<P.CoderType<{ a: number; b: bigint[]; c: Uint8Array }>>(
+  P.compile(P.struct({ a: P.U8, b: P.array(2, P.U64LE), c: P.bytes(4) }), { codegen: false })
+);
+// typedArray
+assertType<P.CoderType<Uint32Array>>(P.typedArray(P.U8, 'u32le'));
+assertType<P.CoderType<BigInt64Array>>(P.typedArray(null, 'i64be'));
+assertType<P.CoderType<{ n: number; data: Float64Array }>>(
+  P.struct({ n: P.U8, data: P.typedArray('n', 'f64le') })
+);
+// view
+const viewed = P.view(
+  P.struct({ a: P.U8, b: P.array(2, P.struct({ c: P.U64LE })), d: P.bytes(2) })
+)(new Uint8Array(19));
+assertType<number>(viewed.a);
+assertType<P.ArrayView<{ c: bigint }>>(viewed.b);
+assertType<bigint>(viewed.b.get(0).c);
+assertType<Uint8Array>(viewed.d);
+// describe
+const desc = P.describe(P.struct({ a: P.U8 }));
+assertType<P.Descriptor>(desc);
+if (desc.kind === 'struct') assertType<readonly P.FieldDescriptor[]>(desc.fields);
+if (desc.kind === 'array') assertType<P.LengthDescriptor>(desc.length);
+// jsonSchema
+assertType<P.JsonSchema>(P.jsonSchema(P.struct({ a: P.U8 }), { bytes: 'base64' }));
+// parseSchema
+assertType<Record<string, P.CoderType<any>>>(P.parseSchema('struct A { a: u8; }'));
+// checkRoundtrip
+assertType<(value: { a: number }) => void>(P.checkRoundtrip(P.struct({ a: P.U8 })));
+// PackedError
+const packedErr = new P.PackedError('x', { code: 'TRUNCATED', path: [], offset: 0, bitOffset: 0 });
+assertType<P.PackedErrorCode>(packedErr.code);
+assertType<(string | number)[]>(packedErr.path);
+const typeErr: unknown = new P.PackedTypeError('x', {
+  code: 'INVALID_TYPE',
+  path: [],
+  offset: 0,
+  bitOffset: 0,
+});
+if (typeErr instanceof P.PackedError) assertType<P.PackedErrorCode>(typeErr.code);
+// check
+assertType<P.CheckIssue[]>(P.check(P.struct({ a: P.U8 }), { a: 1 }));
+// decodePartial
+const partial = P.decodePartial(P.struct({ a: P.U8 }), new Uint8Array(1));
+if (partial.ok) assertType<{ a: number }>(partial.value);
+else assertType<P.PackedError>(partial.error);
@@ -0,0 +1,397 @@
+/**
+ * fast-check arbitraries derived from coders: random valid values for property-based tests.
+ * fast-check is passed by the caller, so it is never bundled with micro-packed.
+ * @module
+ */
+import { hex as baseHex, utf8 } from '@scure/base';
+import type * as FC from 'fast-check';
+import { describe, type CoderType, type Descriptor, type LengthDescriptor } from './index.ts';
+
+/** Options for {@link arbitrary}. */
+export type ArbitraryOpts = {
+  /** Arbitraries for coders whose values cannot be derived: `apply`, `wrap`, `cbor`, `asn1`. */
+  overrides?: Map<CoderType<any>, FC.Arbitrary<any>>;
+  /** Maximum length of variable-size arrays, bytes and strings. Default: 16. */
+  maxLength?: number;
+  /** Maximum nesting of `lazy` coders: arrays and options at this depth are empty. Default: 3. */
+  maxDepth?: number;
+};
+
+type Ctx = {
+  fc: typeof FC;
+  overrides: Map<Descriptor, FC.Arbitrary<any>>;
+  maxLength: number;
+  maxDepth: number;
+  // Arbitraries of lazy coders by depth, built on first use
+  lazy: Map<Descriptor, FC.Arbitrary<any>[]>;
+};
+type Len = { minLength: number; maxLength: number };
+// Objects on the path stack during fixup: structs, tuples and arrays, same as in coders.
+type Stack = any[];
+// Length and flag fields set from the values that reference them (array('count', ...)).
+type Fixup = { valid: boolean; set: Map<object, Map<string, unknown>> };
+type TypedArrayCtor = {
+  BYTES_PER_ELEMENT: number;
+  // Method syntax: each constructor accepts only its own element type
+  from(arrayLike: ArrayLike<number | bigint>): ArrayBufferView;
+};
+
+const INVALID = Symbol('invalid');
+const MAX_REJECTED = 1000;
+const TYPED_ARRAYS = {
+  u8: Uint8Array,
+  i8: Int8Array,
+  u16: Uint16Array,
+  i16: Int16Array,
+  u32: Uint32Array,
+  i32: Int32Array,
+  u64: BigUint64Array,
+  i64: BigInt64Array,
+  f32: Float32Array,
+  f64: Float64Array,
+} as const;
+const _0n = /* @__PURE__ */ BigInt(0);
+const _1n = /* @__PURE__ */ BigInt(1);
+// Bounds of integers with `bits` bits
+const uint = (bits: number): [bigint, bigint] => [_0n, (_1n << BigInt(bits)) - _1n];
+const sint = (bits: number): [bigint, bigint] => {
+  const half = _1n << BigInt(bits - 1);
+  return [-half, half - _1n];
+};
+// Bounds of varint formats, number variants are limited to safe integers
+const VARINTS: Record<string, [bigint, bigint]> = /* @__PURE__ */ (() => ({
+  uleb128: uint(64),
+  sleb128: sint(64),
+  compactSize: uint(64),
+  quic: uint(62),
+  vlq: uint(64),
+  sqlite: uint(64),
+}))();
+const PROTO_INTS: Record<string, [bigint, bigint]> = /* @__PURE__ */ (() => ({
+  int32: sint(32),
+  sint32: sint(32),
+  enum: sint(32),
+  uint32: uint(32),
+  int64: sint(64),
+  sint64: sint(64),
+  uint64: uint(64),
+}))();
+
+function integer(
+  fc: typeof FC,
+  min: bigint,
+  max: bigint,
+  big: boolean
+): FC.Arbitrary<number | bigint> {
+  if (big) return fc.bigInt({ min, max });
+  const safe = BigInt(Number.MAX_SAFE_INTEGER);
+  return fc.integer({
+    min: Number(min < -safe ? -safe : min),
+    max: Number(max > safe ? safe : max),
+  });
+}
+// Largest value of an integer length prefix
+function maxValue(d: Descriptor): number {
+  if (d.kind === 'int') return 2 ** (8 * d.bytes - (d.signed ? 1 : 0)) - 1;
+  if (d.kind === 'bits') return 2 ** d.bits - 1;
+  return Infinity;
+}
+function lengths(ctx: Ctx, len: LengthDescriptor, depth: number): Len {
+  if (len.kind === 'fixed') return { minLength: len.len, maxLength: len.len };
+  // Recursion budget is spent: variable-size containers stay empty
+  const max = depth >= ctx.maxDepth ? 0 : ctx.maxLength;
+  if (len.kind === 'prefix') return { minLength: 0, maxLength: Math.min(max, maxValue(len.coder)) };
+  return { minLength: 0, maxLength: max };
+}
+function unsupported(d: Descriptor): never {
+  throw new Error(`arbitrary: cannot derive values of ${d.kind} coder, pass it in overrides`);
+}
+function build(ctx: Ctx, d: Descriptor, depth: number): FC.Arbitrary<any> {
+  const { fc } = ctx;
+  const override = ctx.overrides.get(d);
+  if (override) return override;
+  switch (d.kind) {
+    case 'int': {
+      const [min, max] = (d.signed ? sint : uint)(8 * d.bytes);
+      return integer(fc, min, max, d.bigint);
+    }
+    case 'varint':
+      return integer(fc, VARINTS[d.format][0], VARINTS[d.format][1], d.bigint);
+    case 'float':
+      return d.bytes === 4 ? fc.float() : fc.double();
+    case 'bool':
+    case 'flag':
+      return fc.boolean();
+    case 'bits':
+      return fc.integer({ min: 0, max: 2 ** d.bits - 1 });
+    case 'bytes':
+      return fc.uint8Array(lengths(ctx, d.length, depth));
+    case 'string': {
+      // Lengths are in bytes: fixed-size strings are ASCII, others any text
+      const len = lengths(ctx, d.length, depth);
+      if (d.length.kind === 'fixed') return fc.string({ ...len, unit: 'grapheme-ascii' });
+      return fc.string({ ...len, unit: 'grapheme' });
+    }
+    case 'hex':
+      return fc
+        .uint8Array(lengths(ctx, d.length, depth))
+        .map((b) => (d.with0x ? '0x' : '') + baseHex.encode(b));
+    case 'prefix':
+      if (d.length.kind === 'path')
+        throw new Error('arbitrary: prefix with path length is not supported, use overrides');
+      return build(ctx, d.inner, depth);
+    case 'array':
+      return fc.array(build(ctx, d.inner, depth), lengths(ctx, d.length, depth));
+    case 'typedArray': {
+      const type = d.type.replace(/(le|be)$/, '') as keyof typeof TYPED_ARRAYS;
+      const Ctor: TypedArrayCtor = TYPED_ARRAYS[type];
+      const bits = Ctor.BYTES_PER_ELEMENT * 8;
+      const [min, max] = (type[0] === 'i' ? sint : uint)(bits);
+      const elm =
+        type === 'f32'
+          ? fc.float()
+          : type === 'f64'
+            ? fc.double()
+            : integer(fc, min, max, bits === 64);
+      return fc.array(elm, lengths(ctx, d.length, depth)).map((a) => Ctor.from(a));
+    }
+    case 'struct':
+    case 'rlpStruct':
+      return fc.record(
+        Object.fromEntries(d.fields.map((f) => [f.name, build(ctx, f.type, depth)]))
+      );
+    case 'tuple':
+      return fc.tuple(...d.fields.map((f) => build(ctx, f, depth)));
+    case 'map':
+      return fc.constantFrom(...Object.keys(d.variants));
+    case 'tag': {
+      // Numeric tag coders decode canonical integer keys to numbers
+      const num = ['int', 'bits', 'varint'].includes(d.tag.kind);
+      return fc.oneof(
+        ...d.variants.map(({ tag, type }) => {
+          const TAG = num && String(Number(tag)) === tag ? Number(tag) : tag;
+          return build(ctx, type, depth).map((data) => ({ TAG, data }));
+        })
+      );
+    }
+    case 'mappedTag':
+      return fc.oneof(
+        ...d.variants.map(({ name, type }) =>
+          build(ctx, type, depth).map((data) => ({ TAG: name, data }))
+        )
+      );
+    case 'bitset':
+      return fc.record(Object.fromEntries(d.names.map((n) => [n, fc.boolean()])));
+    case 'flagged':
+    case 'optional':
+    case 'asn1Optional':
+      if (depth >= ctx.maxDepth) return fc.constant(undefined);
+      return fc.option(build(ctx, d.inner, depth), { nil: undefined });
+    case 'magic':
+      return fc.constant(undefined);
+    case 'constant':
+      return fc.constant(d.value);
+    case 'padLeft':
+    case 'padRight':
+    case 'pointer':
+    case 'validate':
+    case 'asn1Default':
+      // validate() conditions are checked by encoding each value
+      return build(ctx, d.inner, depth);
+    case 'lazy': {
+      // Built on first use: recursive coders would never finish otherwise
+      let byDepth = ctx.lazy.get(d);
+      if (!byDepth) ctx.lazy.set(d, (byDepth = []));
+      const cache = byDepth;
+      return fc.constant(undefined).chain(() => {
+        if (!cache[depth]) cache[depth] = build(ctx, d.inner, depth + 1);
+        return cache[depth];
+      });
+    }
+    case 'protobuf':
+      // Repeated fields with no elements are not on the wire, so they decode as missing keys
+      return fc.record(
+        Object.fromEntries(
+          d.fields.map(({ name, repeated, type }) => {
+            const inner = build(ctx, type, depth);
+            if (!repeated) return [name, inner];
+            const max = depth >= ctx.maxDepth ? 1 : ctx.maxLength;
+            return [name, fc.array(inner, { minLength: 1, maxLength: Math.max(1, max) })];
+          })
+        ),
+        { requiredKeys: [] }
+      );
+    case 'protobufVarint': {
+      if (d.type === 'bool') return fc.boolean();
+      const [min, max] = PROTO_INTS[d.type];
+      return integer(fc, min, max, d.type.endsWith('64'));
+    }
+    case 'rlp':
+      return fc.letrec<{ item: any }>((tie) => ({
+        item: fc.oneof(
+          { depthSize: 'small' },
+          fc.uint8Array({ maxLength: ctx.maxLength }),
+          fc.array(tie('item'), { maxLength: depth >= ctx.maxDepth ? 0 : ctx.maxLength })
+        ),
+      })).item;
+    case 'rlpUint':
+      return fc.bigInt({ min: _0n, max: uint(256)[1] });
+    default:
+      return unsupported(d);
+  }
+}
+
+// Path lookup like in coders: leading '..' go up the stack, '/' goes into nested fields.
+function setPath(fix: Fixup, stack: Stack, path: string, value: number | boolean) {
+  const parts = path.split('/');
+  const objs = stack.slice();
+  let i = 0;
+  for (; parts[i] === '..'; i++) objs.pop();
+  let obj = objs.pop();
+  for (; i < parts.length - 1 && obj; i++) obj = obj[parts[i]];
+  const key = parts[parts.length - 1];
+  // Only fields that exist: paths to missing ones fail on encode anyway
+  if (obj === null || typeof obj !== 'object' || Array.isArray(obj) || !(key in obj))
+    return void (fix.valid = false);
+  let set = fix.set.get(obj);
+  if (!set) fix.set.set(obj, (set = new Map()));
+  // Two references to the same field that need different values
+  if (set.has(key) && set.get(key) !== value) return void (fix.valid = false);
+  set.set(key, value);
+  const cur = obj[key];
+  if (typeof cur === 'bigint') obj[key] = BigInt(value);
+  else if (typeof cur === 'boolean') obj[key] = !!value;
+  else obj[key] = typeof value === 'boolean' ? +value : value;
+}
+// Encoded length of values with a path length: bytes for strings and hex, elements otherwise
+function valueLength(d: Descriptor, v: any): number {
+  if (d.kind === 'string') return utf8.decode(v).length;
+  if (d.kind === 'hex') return (v.length - (d.with0x ? 2 : 0)) / 2;
+  return v.length;
+}
+function fixup(fix: Fixup, d: Descriptor, v: any, stack: Stack): void {
+  if (!fix.valid) return;
+  switch (d.kind) {
+    case 'struct':
+    case 'rlpStruct':
+      stack.push(v);
+      for (const f of d.fields) fixup(fix, f.type, v[f.name], stack);
+      stack.pop();
+      return;
+    case 'tuple':
+      stack.push(v);
+      d.fields.forEach((f, i) => fixup(fix, f, v[i], stack));
+      stack.pop();
+      return;
+    case 'array':
+      if (d.length.kind === 'path') setPath(fix, stack, d.length.path, v.length);
+      stack.push(v);
+      for (const i of v) fixup(fix, d.inner, i, stack);
+      stack.pop();
+      return;
+    case 'bytes':
+    case 'string':
+    case 'hex':
+    case 'typedArray':
+      if (d.length.kind === 'path') setPath(fix, stack, d.length.path, valueLength(d, v));
+      return;
+    case 'flagged':
+      if (typeof d.flag === 'string') setPath(fix, stack, d.flag, v !== undefined);
+      if (v !== undefined) fixup(fix, d.inner, v, stack);
+      return;
+    case 'optional':
+    case 'asn1Optional':
+      if (v !== undefined) fixup(fix, d.inner, v, stack);
+      return;
+    case 'tag':
+    case 'mappedTag': {
+      const variant = d.variants.find((i) =>
+        d.kind === 'tag' ? i.tag === String(v.TAG) : (i as { name: string }).name === v.TAG
+      );
+      if (variant) fixup(fix, variant.type, v.data, stack);
+      return;
+    }
+    case 'prefix':
+      // Prefixed values are encoded separately, their paths cannot reach outside
+      return fixup(fix, d.inner, v, []);
+    case 'padLeft':
+    case 'padRight':
+    case 'pointer':
+    case 'validate':
+    case 'lazy':
+    case 'asn1Default':
+      return fixup(fix, d.inner, v, stack);
+  }
+}
+
+/**
+ * Derives a fast-check arbitrary of values from a coder: int bounds, fixed lengths, `map`
+ * variants, `tag` arms, `bitset` names and `magic` constants come from the coder. Fields that
+ * hold lengths or flags of others (`P.array('count', ...)`, `P.flagged('hasX', ...)`) are set
+ * from them; values which still fail to encode (terminators, `P.validate`) are filtered out.
+ * Values of `apply`, `wrap`, `cbor`, `msgpack` and `asn1` coders cannot be derived: pass their
+ * arbitraries in `overrides`.
+ * @param fc - fast-check module (`import * as fc from 'fast-check'`).
+ * @param coder - Coder to generate values for.
+ * @param opts - Generation options. See {@link ArbitraryOpts}.
+ * @returns Arbitrary of values accepted by `coder.encode`.
+ * @throws If the coder has values which cannot be derived. {@link Error}
+ * @throws When sampling, if the coder rejects every generated value. {@link Error}
+ * @throws On wrong arguments. {@link TypeError}
+ * @example
+ * Property-test a schema.
+ * ```ts
+ * import * as fc from 'fast-check';
+ * import * as P from 'micro-packed';
+ * import { arbitrary } from 'micro-packed/arbitrary.js';
+ * const Msg = P.struct({ count: P.U8, items: P.array('count', P.U16LE), name: P.cstring });
+ * fc.assert(fc.property(arbitrary(fc, Msg), P.checkRoundtrip(Msg)));
+ * ```
+ */
+export function arbitrary<T>(
+  fc: typeof FC,
+  coder: CoderType<T>,
+  opts: ArbitraryOpts = {}
+): FC.Arbitrary<T> {
+  if (typeof fc !== 'object' || fc === null || typeof fc.constant !== 'function')
+    throw new TypeError('arbitrary: expected fast-check module as first argument');
+  const root = describe(coder);
+  if (typeof opts !== 'object' || opts === null)
+    throw new TypeError(`arbitrary: expected options object, got ${opts}`);
+  const { overrides = new Map(), maxLength = 16, maxDepth = 3 } = opts;
+  if (!(overrides instanceof Map)) throw new TypeError('arbitrary/overrides: expected Map');
+  if (!Number.isSafeInteger(maxLength) || maxLength < 0)
+    throw new TypeError(`arbitrary/maxLength: expected non-negative integer, got ${maxLength}`);
+  if (!Number.isSafeInteger(maxDepth) || maxDepth < 0)
+    throw new TypeError(`arbitrary/maxDepth: expected non-negative integer, got ${maxDepth}`);
+  const ctx: Ctx = {
+    fc,
+    overrides: new Map(Array.from(overrides, ([c, arb]) => [describe(c), arb])),
+    maxLength,
+    maxDepth,
+    lazy: new Map(),
+  };
+  // Filter would spin forever on coders that reject every generated value
+  let rejected = 0;
+  const reject = (reason: string) => {
+    if (++rejected >= MAX_REJECTED)
+      throw new Error(`arbitrary: ${MAX_REJECTED} generated values in a row failed: ${reason}`);
+    return INVALID;
+  };
+  return build(ctx, root, 0)
+    .map((v) => {
+      // Generated values are shared with shrinking: fix up a copy
+      const res = structuredClone(v);
+      const fix: Fixup = { valid: true, set: new Map() };
+      fixup(fix, root, res, []);
+      if (!fix.valid) return reject('conflicting length or flag fields');
+      try {
+        coder.encode(res);
+      } catch (e) {
+        return reject(e instanceof Error ? e.message : String(e));
+      }
+      rejected = 0;
+      return res;
+    })
+    .filter((v): v is T => v !== INVALID);
+}
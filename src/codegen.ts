@@ -0,0 +1,272 @@
+/**
+ * TypeScript declaration generator: turns runtime coders (built dynamically, where `UnwrapCoder`
+ * is not available) into `.d.ts` text for their decoded values.
+ * @module
+ */
+import {
+  describe,
+  type CoderType,
+  type Descriptor,
+  type FieldDescriptor,
+  type TypedArrayType,
+} from './index.ts';
+
+/** Options for {@link dts}. */
+export type DtsOpts = {
+  /** Name of the root declaration, nested structs are named after it: `Value`, `ValueHeader`. */
+  name?: string;
+};
+
+type Ctx = {
+  names: Map<Descriptor, string>;
+  used: Set<string>;
+  decls: string[];
+  imports: Set<string>;
+};
+// Decoded type as union members: struct fields use them to decide key optionality.
+type Members = string[];
+
+const IDENT = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const TYPED_ARRAYS: Record<string, string> = {
+  u8: 'Uint8Array',
+  i8: 'Int8Array',
+  u16: 'Uint16Array',
+  i16: 'Int16Array',
+  u32: 'Uint32Array',
+  i32: 'Int32Array',
+  u64: 'BigUint64Array',
+  i64: 'BigInt64Array',
+  f32: 'Float32Array',
+  f64: 'Float64Array',
+};
+// Universal ASN.1 tags whose content coder has no descriptor of its own
+const ASN1_TYPES: Record<number, string> = {
+  1: 'boolean',
+  2: 'bigint',
+  3: 'Asn1BitString',
+  5: 'null',
+  6: 'string',
+  12: 'string',
+  17: 'unknown[]',
+  19: 'string',
+  22: 'string',
+  23: 'Date',
+  24: 'Date',
+};
+const IMPORTABLE = ['Asn1BitString', 'Asn1Tlv', 'CborValue', 'MsgpackValue', 'RlpValue'];
+
+const pascal = (s: string) =>
+  s
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((p) => p[0].toUpperCase() + p.slice(1))
+    .join('');
+// Single-quoted string literal, same escaping as JSON otherwise
+const str = (s: string) =>
+  `'${JSON.stringify(s).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+const key = (name: string) => (IDENT.test(name) ? name : str(name));
+const union = (m: Members) => (m.length ? Array.from(new Set(m)).join(' | ') : 'never');
+const literal = (v: string | number) => (typeof v === 'number' ? String(v) : str(v));
+const typedArray = (type: TypedArrayType) => TYPED_ARRAYS[type.replace(/(le|be)$/, '')];
+
+function valueType(v: unknown): string {
+  if (v === undefined) return 'undefined';
+  if (v === null) return 'null';
+  if (v instanceof Uint8Array) return 'Uint8Array';
+  if (['string', 'number', 'bigint', 'boolean'].includes(typeof v)) return typeof v;
+  return 'unknown';
+}
+function free(ctx: Ctx, name: string): string {
+  let res = name;
+  for (let i = 2; ctx.used.has(res); i++) res = `${name}${i}`;
+  return res;
+}
+function ref(ctx: Ctx, name: string): string {
+  if (IMPORTABLE.includes(name)) ctx.imports.add(name);
+  return name;
+}
+// Declares a named type once per descriptor; the name is reserved before the body is built, so
+// recursive references (lazy) resolve to it.
+function named(ctx: Ctx, d: Descriptor, name: string, body: (self: string) => string): Members {
+  const existing = ctx.names.get(d);
+  if (existing !== undefined) return [existing];
+  const res = free(ctx, name);
+  ctx.used.add(res);
+  ctx.names.set(d, res);
+  const pos = ctx.decls.push('') - 1;
+  ctx.decls[pos] = body(res);
+  return [res];
+}
+function iface(ctx: Ctx, name: string, fields: readonly FieldDescriptor[], opt = false): string[] {
+  const lines = [`export interface ${name} {`];
+  for (const f of fields) {
+    const m = members(ctx, f.type, name + pascal(f.name));
+    // Same as StructInput: keys of `undefined` type disappear, nullable keys become optional
+    if (m.every((t) => t === 'undefined')) continue;
+    const optional = opt || m.includes('undefined') || m.includes('null');
+    lines.push(`  ${key(f.name)}${optional ? '?' : ''}: ${union(m)};`);
+  }
+  return lines;
+}
+function tagged(ctx: Ctx, name: string, tag: string, type: Descriptor): string {
+  const m = members(ctx, type, name);
+  if (m.every((t) => t === 'undefined')) return `{ TAG: ${tag} }`;
+  const optional = m.includes('undefined') || m.includes('null');
+  return `{ TAG: ${tag}; data${optional ? '?' : ''}: ${union(m)} }`;
+}
+
+// Named declaration: structs become interfaces, other types an alias (recursion needs a name)
+function declare(ctx: Ctx, d: Descriptor, name: string): Members {
+  if (d.kind === 'struct' || d.kind === 'rlpStruct' || d.kind === 'protobuf')
+    return members(ctx, d, name);
+  return named(ctx, d, name, (self) => `export type ${self} = ${union(members(ctx, d, self))};`);
+}
+function members(ctx: Ctx, d: Descriptor, name: string): Members {
+  switch (d.kind) {
+    case 'int':
+    case 'varint':
+      return [d.bigint ? 'bigint' : 'number'];
+    case 'float':
+    case 'bits':
+      return ['number'];
+    case 'bool':
+      return ['boolean'];
+    case 'flag':
+      return ['boolean', 'undefined'];
+    case 'bytes':
+      return ['Uint8Array'];
+    case 'string':
+    case 'hex':
+      return ['string'];
+    case 'array': {
+      const inner = union(members(ctx, d.inner, name));
+      return [inner.includes(' ') ? `(${inner})[]` : `${inner}[]`];
+    }
+    case 'typedArray':
+      return [typedArray(d.type)];
+    case 'struct':
+    case 'rlpStruct':
+      return named(ctx, d, name, (self) => iface(ctx, self, d.fields).join('\n') + '\n}');
+    case 'protobuf':
+      return named(ctx, d, name, (self) => {
+        const fields = d.fields.map(({ name, repeated, type }) => ({
+          name,
+          type: repeated
+            ? ({ kind: 'array', length: { kind: 'eof' }, inner: type } as const)
+            : type,
+        }));
+        // Decoded messages only have fields that were present on the wire
+        const lines = iface(ctx, self, fields, true);
+        lines.push('  $unknown?: { field: number; wire: 0 | 1 | 2 | 5; data: Uint8Array }[];');
+        return lines.join('\n') + '\n}';
+      });
+    case 'tuple': {
+      const items = d.fields.map((f, i) => union(members(ctx, f, name + i)));
+      return [`[${items.join(', ')}]`];
+    }
+    case 'map':
+      return Object.keys(d.variants).map(str);
+    case 'tag': {
+      // Numeric tag coders decode canonical integer keys to numbers
+      const num = ['int', 'bits', 'varint'].includes(d.tag.kind);
+      return d.variants.map(({ tag, type }) => {
+        const t = num && String(Number(tag)) === tag ? Number(tag) : tag;
+        return tagged(ctx, name + pascal(String(tag)), literal(t), type);
+      });
+    }
+    case 'mappedTag':
+    case 'asn1Choice':
+      return d.variants.map((v) => tagged(ctx, name + pascal(v.name), literal(v.name), v.type));
+    case 'bitset': {
+      if (!d.names.length) return ['{}'];
+      return [`{ ${d.names.map((n) => `${key(n)}: boolean`).join('; ')} }`];
+    }
+    case 'constant':
+      return [valueType(d.value)];
+    case 'magic':
+      return ['undefined'];
+    case 'prefix':
+    case 'padLeft':
+    case 'padRight':
+    case 'pointer':
+    case 'validate':
+    case 'asn1Default':
+      return members(ctx, d.inner, name);
+    case 'flagged':
+    case 'optional':
+    case 'asn1Optional':
+      return [...members(ctx, d.inner, name), 'undefined'];
+    case 'lazy': {
+      // Keyed on the lazy descriptor too: `inner` may describe a new coder on every access.
+      // declare() below names a fresh inner exactly as reserved here.
+      const known = ctx.names.get(d);
+      if (known !== undefined) return [known];
+      const inner = d.inner;
+      if (!ctx.names.has(inner)) ctx.names.set(d, free(ctx, name));
+      return declare(ctx, inner, name);
+    }
+    case 'protobufVarint':
+      return [d.type === 'bool' ? 'boolean' : d.type.endsWith('64') ? 'bigint' : 'number'];
+    case 'cbor':
+      return [ref(ctx, 'CborValue')];
+    case 'msgpack':
+      return [ref(ctx, 'MsgpackValue')];
+    case 'rlp':
+      return [ref(ctx, 'RlpValue')];
+    case 'rlpUint':
+      return ['bigint'];
+    case 'asn1': {
+      if (d.inner.kind !== 'custom') return members(ctx, d.inner, name);
+      const t = d.cls === 'universal' ? ASN1_TYPES[d.tag] : undefined;
+      return [t ? ref(ctx, t) : 'unknown'];
+    }
+    case 'asn1Any':
+      return [ref(ctx, 'Asn1Tlv')];
+    // apply() transforms and wrap() coders: decoded type is not known at runtime
+    default:
+      return ['unknown'];
+  }
+}
+
+/**
+ * Generates `.d.ts` text with the decoded type of a coder. Structs become named interfaces (nested
+ * ones are named after the field path: `Value`, `ValueHeader`), recursive `lazy` types refer to
+ * their names. Key optionality matches `StructInput`: keys that can be `undefined` or `null` are
+ * optional, keys that are always `undefined` (magic) are omitted. Values of `apply` and `wrap`
+ * coders are `unknown`.
+ * @param coder - Coder to describe.
+ * @param opts - Declaration options. See {@link DtsOpts}.
+ * @returns TypeScript declarations, root type first.
+ * @throws On wrong arguments. {@link TypeError}
+ * @example
+ * Emit declarations for a schema assembled at runtime.
+ * ```ts
+ * import * as P from 'micro-packed';
+ * import { dts } from 'micro-packed/codegen.js';
+ * const Msg = P.struct({
+ *   id: P.U32LE,
+ *   tags: P.array(P.U8, P.cstring),
+ *   ext: P.flagged('id', P.U8),
+ * });
+ * dts(Msg, { name: 'Msg' });
+ * // export interface Msg {
+ * //   id: number;
+ * //   tags: string[];
+ * //   ext?: number | undefined;
+ * // }
+ * ```
+ */
+export function dts(coder: CoderType<any>, opts: DtsOpts = {}): string {
+  const root = describe(coder);
+  if (typeof opts !== 'object' || opts === null)
+    throw new TypeError(`dts: expected options object, got ${opts}`);
+  const { name = 'Value' } = opts;
+  if (typeof name !== 'string' || !IDENT.test(name))
+    throw new TypeError(`dts/name: expected identifier, got ${name}`);
+  const ctx: Ctx = { names: new Map(), used: new Set(), decls: [], imports: new Set() };
+  declare(ctx, root, name);
+  const res: string[] = [];
+  if (ctx.imports.size)
+    res.push(`import type { ${Array.from(ctx.imports).sort().join(', ')} } from 'micro-packed';`);
+  return res.concat(ctx.decls).join('\n') + '\n';
+}
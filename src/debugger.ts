@@ -6,6 +6,7 @@ import {
   utils,
   type Bytes,
   type CoderType,
+  type PackedError,
   type Reader,
   type TArg,
   type TRet,
@@ -24,18 +25,27 @@ const red = /* @__PURE__ */ (() => esc + '[31m')();
 const green = /* @__PURE__ */ (() => esc + '[32m')();
 const yellow = /* @__PURE__ */ (() => esc + '[33m')();
 
-type DebugPath = { start: number; end?: number; path: string; value?: any };
+type DebugPath = {
+  start: number;
+  end?: number;
+  path: string;
+  fields: (string | number)[];
+  level: number;
+  value?: any;
+};
 const DebugReader = /* @__PURE__ */ (() =>
   class DebugReader extends _TEST._Reader {
     debugLst: DebugPath[] = [];
     cur?: DebugPath;
     get lastElm() {
       if (this.debugLst.length) return this.debugLst[this.debugLst.length - 1];
-      return { start: 0, end: 0, path: '' };
+      return { start: 0, end: 0, path: '', fields: [], level: 0 };
     }
     enterField(field: string | number) {
       // Set the field first: emitted paths always included the current leaf.
       super.enterField(field);
+      const level = this.stack.length - 1;
+      const fields = _TEST.Path.fields(this.stack);
       const last = this.lastElm;
       if (last.end === undefined) last.end = this.pos;
       else if (last.end !== this.pos) {
@@ -43,9 +53,16 @@ const DebugReader = /* @__PURE__ */ (() =>
           path: `${_TEST.Path.path(this.stack)}/${UNKNOWN}`,
           start: last.end,
           end: this.pos,
+          fields: [...fields, UNKNOWN],
+          level,
         });
       }
-      this.cur = { path: `${_TEST.Path.path(this.stack)}/${field}`, start: this.pos };
+      this.cur = {
+        path: `${_TEST.Path.path(this.stack)}/${field}`,
+        start: this.pos,
+        fields,
+        level,
+      };
     }
     // Not called when the field decode throws; finishDebug() flushes the dangling `cur`.
     exitField() {
@@ -60,6 +77,8 @@ const DebugReader = /* @__PURE__ */ (() =>
             start: last.end,
             end: this.pos,
             path: last.path + `/${UNKNOWN}`,
+            fields: [...last.fields, UNKNOWN],
+            level: last.level,
           });
         }
       } else {
@@ -77,14 +96,18 @@ const DebugReader = /* @__PURE__ */ (() =>
     finishDebug(): void {
       const end = this.data.length;
       if (this.cur) this.debugLst.push({ end, ...this.cur });
+      // Nothing mapped (primitive root): consumed bytes are the root value itself.
+      if (!this.debugLst.length && (this.pos || !end))
+        this.debugLst.push({ start: 0, end: this.pos, path: '', fields: [], level: 0 });
       const last = this.lastElm;
       // Primitive coders never call pushObj(), so the fallback row must begin at the previous
       // mapped end (0 for an empty map) instead of the already-consumed cursor position.
+      const unknown = { path: UNKNOWN, fields: [UNKNOWN], level: 0 };
       if (last.end !== undefined && last.end !== end)
-        this.debugLst.push({ start: last.end, end, path: UNKNOWN });
-      else if (last.end === undefined) this.debugLst.push({ start: this.pos, end, path: UNKNOWN });
+        this.debugLst.push({ start: last.end, end, ...unknown });
+      else if (last.end === undefined) this.debugLst.push({ start: this.pos, end, ...unknown });
       // Force-printing a successful zero-byte decode still needs a row; table([]) is an error.
-      if (!this.debugLst.length) this.debugLst.push({ start: 0, end, path: UNKNOWN });
+      if (!this.debugLst.length) this.debugLst.push({ start: 0, end, ...unknown });
     }
   })();
 
@@ -99,7 +122,8 @@ function toBytes(data: TArg<string | Bytes>): TRet<Bytes> {
   throw new Error(`PD: data has unknown string format: ${data}`);
 }
 
-type DebugData = { path: string; data: TRet<Bytes>; value?: any };
+// Table rows keep the printed path string; inspect() exposes `fields` as its path.
+type DebugData = Omit<InspectField, 'path'> & { path: string; fields: (string | number)[] };
 function mapData(lst: DebugPath[], data: TArg<Bytes>): TRet<DebugData[]> {
   // DebugReader should emit a contiguous ordered partition of the input.
   let end = 0;
@@ -109,8 +133,12 @@ function mapData(lst: DebugPath[], data: TArg<Bytes>): TRet<DebugData[]> {
     if (elm.end === undefined) throw new Error(`PD: elm.end is undefined=${elm}`);
     res.push({
       path: elm.path,
+      fields: elm.fields,
+      start: elm.start,
+      end: elm.end,
       data: Uint8Array.from(data.subarray(elm.start, elm.end)) as TRet<Bytes>,
       value: elm.value,
+      level: elm.level,
     });
     end = elm.end;
   }
@@ -214,6 +242,111 @@ function fmtValue(value: any) {
   return '' + value;
 }
 
+// Decodes without throwing: rows are mapped up to the error too.
+function decodeMap(coder: CoderType<any>, data: TArg<string | Bytes>) {
+  data = toBytes(data);
+  const r = new DebugReader(data);
+  let value, error;
+  try {
+    value = coder.decodeStream(r);
+    r.finish();
+  } catch (e) {
+    error = e as Error;
+  }
+  r.finishDebug();
+  return { rows: mapData(r.debugLst, data), value, error };
+}
+
+/** Decoded byte range of one field, returned by {@link inspect}. */
+export type InspectField = {
+  /**
+   * Struct keys and array / tuple indices, `[]` for the root value of a non-struct coder.
+   * Bytes no field claimed end with `'(???)'`.
+   */
+  path: (string | number)[];
+  /** Offset of the first byte. */
+  start: number;
+  /** Offset after the last byte. */
+  end: number;
+  /** Raw bytes of the field. */
+  data: TRet<Bytes>;
+  /** Decoded value, `undefined` for unclaimed bytes and the failing field. */
+  value?: any;
+  /** Nesting depth: 0 for fields of the top-level struct / array. */
+  level: number;
+};
+/** Result of {@link inspect}. */
+export type Inspection = {
+  /** Fields in byte order. Together they cover the whole input. */
+  fields: InspectField[];
+  /** Decoded value, if decoding succeeded. */
+  value?: any;
+  /** Decoding error, if any. Fields decoded before it are still listed. */
+  error?: Error;
+};
+
+/**
+ * Decode input and return the field map as plain objects instead of printing it.
+ * @param coder - Coder used for the decode step.
+ * @param data - Hex, base64, or raw bytes to decode.
+ * @returns Field map, decoded value and decoding error.
+ * @throws If the input string has unknown format. {@link Error}
+ * @example
+ * Collect byte ranges and values of each field, e.g. for a web UI.
+ * ```ts
+ * import { U8, U16BE, struct } from 'micro-packed';
+ * import { inspect, stringify } from 'micro-packed/debugger.js';
+ * const { fields } = inspect(struct({ a: U8, b: U16BE }), Uint8Array.of(1, 0, 2));
+ * // [{ path: ['a'], start: 0, end: 1, data: Uint8Array.of(1), value: 1, level: 0 }, ...]
+ * stringify(fields);
+ * ```
+ */
+export function inspect(coder: CoderType<any>, data: TArg<string | Bytes>): TRet<Inspection> {
+  const { rows, value, error } = decodeMap(coder, data);
+  const fields = rows.map((row) => ({
+    path: row.fields,
+    start: row.start,
+    end: row.end,
+    data: row.data,
+    value: row.fields.length ? row.value : value,
+    level: row.level,
+  }));
+  return error ? { fields, error } : { fields, value };
+}
+
+/**
+ * Serialize decoded values or {@link inspect} results to JSON, for snapshots and web UIs.
+ * Bigints become `{ bigint: '123' }`, Uint8Arrays `{ hex: '01ff' }`, other typed arrays
+ * plain number arrays and errors `{ error: message }` (with `code` and `path` of PackedError).
+ * @param value - Value to serialize.
+ * @param space - Indentation, same as in `JSON.stringify`.
+ * @returns JSON string.
+ * @example
+ * Snapshot a decoded value with bigints and bytes.
+ * ```ts
+ * import { stringify } from 'micro-packed/debugger.js';
+ * // '{"n":{"bigint":"1"},"data":{"hex":"01ff"}}'
+ * stringify({ n: 1n, data: Uint8Array.of(1, 255) });
+ * ```
+ */
+export function stringify(value: unknown, space?: number | string): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => {
+      if (typeof v === 'bigint') return { bigint: v.toString() };
+      if (utils.isBytes(v)) return { hex: hex.encode(v) };
+      if (ArrayBuffer.isView(v) && !(v instanceof DataView))
+        return Array.from(v as unknown as ArrayLike<number | bigint>);
+      if (v instanceof Error) {
+        const { code, path } = v as Partial<PackedError>;
+        return { error: v.message, code, path };
+      }
+      return v;
+    },
+    space
+  );
+}
+
 /**
  * Decode input while printing the partially decoded map when an error occurs.
  * @param coder - Coder used for the decode step.
@@ -234,21 +367,12 @@ export function decode(
   data: TArg<string | Bytes>,
   forcePrint = false
 ): ReturnType<(typeof coder)['decode']> {
-  data = toBytes(data);
-  const r = new DebugReader(data);
-  let res, e;
-  try {
-    res = coder.decodeStream(r);
-    r.finish();
-  } catch (_e) {
-    e = _e;
-  }
-  r.finishDebug();
-  if (e || forcePrint) {
+  const { rows, value, error } = decodeMap(coder, data);
+  if (error || forcePrint) {
     // @ts-ignore
     console.log('==== DECODED BEFORE ERROR ====');
     table(
-      mapData(r.debugLst, data).map((elm) => ({
+      rows.map((elm) => ({
         Data: fmtData(elm.data),
         Len: elm.data.length,
         Path: `${green}${elm.path}${reset}`,
@@ -258,8 +382,8 @@ export function decode(
     // @ts-ignore
     console.log('==== /DECODED BEFORE ERROR ====');
   }
-  if (e) throw e;
-  return res;
+  if (error) throw error;
+  return value;
 }
 
 function getMap(coder: CoderType<any>, data: TArg<string | Bytes>) {
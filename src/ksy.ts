@@ -0,0 +1,794 @@
+/**
+ * Kaitai Struct importer: builds coders from `.ksy` specs (already parsed from YAML), so existing
+ * format descriptions can be encoded, decoded and inspected with the debugger.
+ * @module
+ */
+import { utf8, type Coder as BaseCoder } from '@scure/base';
+import {
+  _TEST,
+  apply,
+  array,
+  bits,
+  bytes,
+  coders,
+  flagged,
+  lazy,
+  magicBytes,
+  map,
+  optional,
+  prefix,
+  string,
+  struct,
+  tag,
+  utils,
+  wrap,
+  F32BE,
+  F32LE,
+  F64BE,
+  F64LE,
+  I16BE,
+  I16LE,
+  I32BE,
+  I32LE,
+  I64BE,
+  I64LE,
+  I8,
+  U16BE,
+  U16LE,
+  U32BE,
+  U32LE,
+  U64BE,
+  U64LE,
+  U8,
+  type Bytes,
+  type CoderType,
+  type Length,
+  type Reader,
+  type TArg,
+  type TRet,
+  type Writer,
+} from './index.ts';
+
+/** Type reference of a seq attribute: type name or `switch-on` with cases. */
+export type KsySwitch = {
+  /** Expression selecting the case. */
+  'switch-on': string | number;
+  /** Type names by case value; `_` is the default case. */
+  cases: Record<string, string>;
+};
+/** Seq attribute (field) of a KSY type. */
+export type KsyAttr = {
+  /** Field name. */
+  id: string;
+  /** Built-in type (`u4le`, `str`...), user type name or switch; bytes when omitted. */
+  type?: string | KsySwitch;
+  /** Byte size: constant or expression. */
+  size?: string | number;
+  /** Read until the end of the stream. */
+  'size-eos'?: boolean;
+  /** Terminator byte of `str`/bytes fields. */
+  terminator?: number;
+  /** Fixed magic contents: string or byte (and string) list. */
+  contents?: string | (string | number)[];
+  /** String encoding, overrides `meta.encoding`. */
+  encoding?: string;
+  /** Enum name mapping integer values to names. */
+  enum?: string;
+  /** Byte processing, only `xor(key)` is supported. */
+  process?: string;
+  /** Repetition kind. */
+  repeat?: 'expr' | 'eos' | 'until';
+  /** Element count of `repeat: expr`. */
+  'repeat-expr'?: string | number;
+  /** Stop condition of `repeat: until`, `_` is the last element. */
+  'repeat-until'?: string | boolean;
+  /** Presence condition. */
+  if?: string | boolean;
+  /** Documentation, ignored. */
+  doc?: string;
+  /** Documentation references, ignored. */
+  'doc-ref'?: string | string[];
+};
+/** Enum values: integer keys to names (or `{ id }` objects). */
+export type KsyEnum = Record<string | number, string | { id: string; doc?: string }>;
+/** KSY meta section: only `endian`, `encoding` and `bit-endian` change coders. */
+export type KsyMeta = {
+  /** Spec name. */
+  id?: string;
+  /** Default byte order of integers and floats. */
+  endian?: 'le' | 'be';
+  /** Default string encoding. */
+  encoding?: string;
+  /** Bit order of `bX` fields, only big-endian is supported. */
+  'bit-endian'?: 'be';
+  [key: string]: unknown;
+};
+/** KSY type; the whole spec is the root type. */
+export type KsyType = {
+  /** Meta section, inherited by nested types. */
+  meta?: KsyMeta;
+  /** Fields in encoding order. */
+  seq?: KsyAttr[];
+  /** Nested types by name. */
+  types?: Record<string, KsyType>;
+  /** Enums by name. */
+  enums?: Record<string, KsyEnum>;
+  /** Documentation, ignored. */
+  doc?: string;
+  /** Documentation references, ignored. */
+  'doc-ref'?: string | string[];
+};
+
+// Type scope: nested types and enums are resolved from the innermost type outwards.
+type Scope = {
+  type: KsyType;
+  path: string;
+  parent?: Scope;
+  endian?: 'le' | 'be';
+  encoding?: string;
+};
+type Ctx = { coders: Map<KsyType, CoderType<any>>; building: Set<KsyType> };
+// Decoded structs on the path stack (arrays are skipped: `_parent` of an element is the struct)
+// and `_` of repeat-until.
+type Env = { objs: any[]; self?: unknown };
+type Expr = (env: Env) => unknown;
+type RW = InstanceType<typeof _TEST._Reader> | InstanceType<typeof _TEST._Writer>;
+
+const DOC_KEYS = ['doc', 'doc-ref'];
+const ATTR_KEYS = [
+  'id',
+  'type',
+  'size',
+  'size-eos',
+  'terminator',
+  'contents',
+  'encoding',
+  'enum',
+  'process',
+  'repeat',
+  'repeat-expr',
+  'repeat-until',
+  'if',
+];
+const TYPE_KEYS = ['meta', 'seq', 'types', 'enums'];
+const INTS: Record<string, CoderType<number> | CoderType<bigint>> = {
+  u1: U8,
+  s1: I8,
+  u2le: U16LE,
+  u2be: U16BE,
+  s2le: I16LE,
+  s2be: I16BE,
+  u4le: U32LE,
+  u4be: U32BE,
+  s4le: I32LE,
+  s4be: I32BE,
+  u8le: U64LE,
+  u8be: U64BE,
+  s8le: I64LE,
+  s8be: I64BE,
+  f4le: F32LE,
+  f4be: F32BE,
+  f8le: F64LE,
+  f8be: F64BE,
+};
+const IDENT = /^[a-z][a-z0-9_]*$/;
+
+const ksyErr = (path: string, msg: string) => new Error(`fromKsy(${path}): ${msg}`);
+const isObj = (v: unknown): v is Record<string, any> => utils.isPlainObject(v);
+const hasOwn = (obj: object, key: PropertyKey): boolean =>
+  Object.prototype.hasOwnProperty.call(obj, key);
+function checkKeys(obj: Record<string, unknown>, allowed: string[], path: string) {
+  for (const k in obj) {
+    // '-webide-representation' and other '-' keys are tool-specific extensions
+    if (allowed.includes(k) || DOC_KEYS.includes(k) || k.startsWith('-')) continue;
+    throw ksyErr(path, `unsupported key '${k}'`);
+  }
+}
+
+// Expressions
+
+// Reference to a struct on the stack: `_root`, `_parent`, `_parent._parent`.
+class StructRef {
+  readonly objs: any[];
+  readonly idx: number;
+  constructor(objs: any[], idx: number) {
+    if (idx < 0) throw new Error('no parent struct');
+    this.objs = objs;
+    this.idx = idx;
+  }
+}
+const EXPR_TOKEN =
+  /\s+|0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?|'[^']*'|"(?:[^"\\]|\\.)*"|[A-Za-z_]\w*(?:::[A-Za-z_]\w*)*|<<|>>|<=|>=|==|!=|[-+*/%&|^~<>()[\].?:]/y;
+// Binary operators from the lowest precedence; 'not' is a prefix operator between 'and' and
+// comparisons, same as in Kaitai.
+const LEVELS = [
+  ['or'],
+  ['and'],
+  ['not'],
+  ['==', '!=', '<', '<=', '>', '>='],
+  ['|'],
+  ['^'],
+  ['&'],
+  ['<<', '>>'],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+const NOT = 2;
+const _0n = /* @__PURE__ */ BigInt(0);
+const _1n = /* @__PURE__ */ BigInt(1);
+
+const isInt = (v: unknown): v is number | bigint =>
+  typeof v === 'bigint' || (typeof v === 'number' && Number.isSafeInteger(v));
+function same(a: unknown, b: unknown): boolean {
+  if (utils.isBytes(a) && utils.isBytes(b)) return utils.equalBytes(a, b);
+  if (isInt(a) && isInt(b)) return BigInt(a) === BigInt(b);
+  return a === b;
+}
+function field(obj: any, name: string): unknown {
+  if (obj instanceof StructRef) {
+    if (name === '_parent') return new StructRef(obj.objs, obj.idx - 1);
+    obj = obj.objs[obj.idx];
+  } else if (Array.isArray(obj) || utils.isBytes(obj) || typeof obj === 'string') {
+    if (name === 'size' || name === 'length') return obj.length;
+    if (name === 'first') return obj[0];
+    if (name === 'last') return obj[obj.length - 1];
+  }
+  if (obj === null || typeof obj !== 'object' || !(name in obj))
+    throw new Error(`unknown field ${name}`);
+  return obj[name];
+}
+function binop(op: string, a: any, b: any): unknown {
+  if (op === '==') return same(a, b);
+  if (op === '!=') return !same(a, b);
+  if (op === '<') return a < b;
+  if (op === '<=') return a <= b;
+  if (op === '>') return a > b;
+  if (op === '>=') return a >= b;
+  if (op === '+' && typeof a === 'string' && typeof b === 'string') return a + b;
+  if (!isInt(a) || !isInt(b)) {
+    if (typeof a !== 'number' || typeof b !== 'number')
+      throw new Error(`cannot apply ${op} to ${a} and ${b}`);
+    if (op === '+') return a + b;
+    if (op === '-') return a - b;
+    if (op === '*') return a * b;
+    if (op === '/') return a / b;
+    throw new Error(`cannot apply ${op} to ${a} and ${b}`);
+  }
+  // Integers are 64-bit in Kaitai: compute in bigint, keep numbers if both operands were numbers
+  const x = BigInt(a);
+  const y = BigInt(b);
+  if ((op === '/' || op === '%') && y === _0n) throw new Error('division by zero');
+  let res: bigint;
+  if (op === '+') res = x + y;
+  else if (op === '-') res = x - y;
+  else if (op === '*') res = x * y;
+  // Floor division and modulo with the sign of divisor
+  else if (op === '/') res = x / y - (x % y !== _0n && x < _0n !== y < _0n ? _1n : _0n);
+  else if (op === '%') res = ((x % y) + y) % y;
+  else if (op === '<<') res = x << y;
+  else if (op === '>>') res = x >> y;
+  else if (op === '&') res = x & y;
+  else if (op === '|') res = x | y;
+  else res = x ^ y;
+  return typeof a === 'bigint' || typeof b === 'bigint' ? res : Number(res);
+}
+function parseNumber(tok: string): number | bigint {
+  const s = tok.replace(/_/g, '');
+  const n = Number(s);
+  if (Number.isSafeInteger(n) || !/^(0[xob])?[\da-f]+$/i.test(s)) return n;
+  return BigInt(s);
+}
+// Parses a Kaitai expression into a closure. Enum references are resolved here, so they work in
+// switch cases without any stack.
+function parseExpr(src: string | number | boolean, scope: Scope, path: string): Expr {
+  if (typeof src !== 'string') return () => src;
+  const toks: string[] = [];
+  for (let i = 0; i < src.length;) {
+    EXPR_TOKEN.lastIndex = i;
+    const m = EXPR_TOKEN.exec(src);
+    if (!m) throw ksyErr(path, `unexpected character '${src[i]}' in expression '${src}'`);
+    if (m[0].trim()) toks.push(m[0]);
+    i += m[0].length;
+  }
+  let pos = 0;
+  const fail = (): never => {
+    const tok = pos < toks.length ? `'${toks[pos]}'` : 'end';
+    throw ksyErr(path, `unexpected ${tok} in expression '${src}'`);
+  };
+  const take = (tok: string) => {
+    if (toks[pos] !== tok) fail();
+    pos++;
+  };
+  const primary = (): Expr => {
+    const tok = toks[pos++];
+    if (tok === undefined) return fail();
+    if (tok === '(') {
+      const e = ternary();
+      take(')');
+      return e;
+    }
+    if (/^\d/.test(tok)) {
+      const n = parseNumber(tok);
+      return () => n;
+    }
+    if (tok[0] === "'") {
+      const s = tok.slice(1, -1);
+      return () => s;
+    }
+    if (tok[0] === '"') {
+      const s = JSON.parse(tok);
+      return () => s;
+    }
+    if (tok === 'true' || tok === 'false') {
+      const b = tok === 'true';
+      return () => b;
+    }
+    if (tok.includes('::')) {
+      // Enum fields decode to names, so 'enum::value' is the name itself
+      const parts = tok.split('::');
+      const name = parts.pop()!;
+      if (!findEnum(parts, scope, path).some((v) => v.name === name))
+        throw ksyErr(path, `unknown enum value ${tok}`);
+      return () => name;
+    }
+    if (tok === '_root') return (env) => new StructRef(env.objs, 0);
+    if (tok === '_parent') return (env) => new StructRef(env.objs, env.objs.length - 2);
+    if (tok === '_') return (env) => env.self;
+    if (tok[0] === '_') throw ksyErr(path, `unsupported ${tok} in expression '${src}'`);
+    if (/^[A-Za-z]/.test(tok) && !LEVELS.some((l) => l.includes(tok)))
+      return (env) => field(env.objs[env.objs.length - 1], tok);
+    return fail();
+  };
+  const postfix = (): Expr => {
+    let e = primary();
+    while (toks[pos] === '.' || toks[pos] === '[') {
+      const obj = e;
+      if (toks[pos++] === '.') {
+        const name = toks[pos++];
+        if (name === undefined || !/^[A-Za-z_]\w*$/.test(name)) return fail();
+        e = (env) => field(obj(env), name);
+      } else {
+        const idx = ternary();
+        take(']');
+        e = (env) => {
+          const o = obj(env);
+          const i = Number(idx(env));
+          if (!Array.isArray(o) && !utils.isBytes(o)) throw new Error(`cannot index ${o}`);
+          if (i < 0 || i >= o.length) throw new Error(`index ${i} out of bounds`);
+          return o[i];
+        };
+      }
+    }
+    return e;
+  };
+  const unary = (): Expr => {
+    const op = toks[pos];
+    if (op !== '-' && op !== '~') return postfix();
+    pos++;
+    const e = unary();
+    return (env) => {
+      const v = e(env);
+      if (typeof v !== 'number' && typeof v !== 'bigint')
+        throw new Error(`cannot apply ${op} to ${v}`);
+      if (op === '-') return -v;
+      const res = ~BigInt(v);
+      return typeof v === 'bigint' ? res : Number(res);
+    };
+  };
+  const binary = (level: number): Expr => {
+    if (level === LEVELS.length) return unary();
+    if (level === NOT) {
+      if (toks[pos] !== 'not') return binary(level + 1);
+      pos++;
+      const e = binary(level);
+      return (env) => !e(env);
+    }
+    let left = binary(level + 1);
+    while (LEVELS[level].includes(toks[pos])) {
+      const op = toks[pos++];
+      const l = left;
+      const r = binary(level + 1);
+      if (op === 'and') left = (env) => !!l(env) && !!r(env);
+      else if (op === 'or') left = (env) => !!l(env) || !!r(env);
+      else left = (env) => binop(op, l(env), r(env));
+    }
+    return left;
+  };
+  const ternary = (): Expr => {
+    const cond = binary(0);
+    if (toks[pos] !== '?') return cond;
+    pos++;
+    const a = ternary();
+    take(':');
+    const b = ternary();
+    return (env) => (cond(env) ? a(env) : b(env));
+  };
+  const res = ternary();
+  if (pos !== toks.length) fail();
+  return res;
+}
+// Constant expressions (switch cases, process keys) have no stack.
+function evalConst(src: string | number, scope: Scope, path: string): unknown {
+  try {
+    return parseExpr(src, scope, path)({ objs: [] });
+  } catch (e) {
+    if ((e as Error).message.startsWith('fromKsy(')) throw e;
+    throw ksyErr(path, `expected constant, got '${src}'`);
+  }
+}
+function evaluate<T = unknown>(
+  rw: TArg<Reader | Writer>,
+  expr: Expr,
+  self?: unknown,
+  conv: (v: unknown) => T = (v) => v as T
+): T {
+  const objs = (rw as RW).stack.map((i) => i.obj).filter((o) => !Array.isArray(o));
+  try {
+    return conv(expr({ objs, self }));
+  } catch (e) {
+    throw rw.err(e as Error);
+  }
+}
+// Zero-size coder with the value of an expression: used as a length, flag or tag. Encoding
+// checks that the value being written is the same as the expression.
+function exprCoder<T>(src: string, expr: Expr, conv: (v: unknown) => T): CoderType<T> {
+  return wrap({
+    size: 0,
+    encodeStream: (w: TArg<Writer>, value: T) => {
+      const v = evaluate(w, expr, undefined, conv);
+      if (!same(v, value)) throw w.err(`expression '${src}' is ${v}, got ${value}`);
+    },
+    decodeStream: (r: TArg<Reader>): T => evaluate(r, expr, undefined, conv),
+  });
+}
+// Simple field names keep the plain micro-packed path length; inside repeated attributes the
+// coder runs under the array, so the path goes one level up.
+function lengthOf(src: string | number, scope: Scope, path: string, repeated: boolean): Length {
+  if (typeof src === 'number') return src;
+  if (/^\d+$/.test(src)) return Number(src);
+  if (IDENT.test(src) && !LEVELS.some((l) => l.includes(src))) return repeated ? `../${src}` : src;
+  return exprCoder(src, parseExpr(src, scope, path), Number);
+}
+
+// Types
+
+type EnumValue = { name: string; value: number | bigint };
+function enumValues(e: KsyEnum, path: string): EnumValue[] {
+  if (!isObj(e)) throw ksyErr(path, 'expected enum object');
+  return Object.keys(e).map((k) => {
+    const v = e[k];
+    const name = typeof v === 'string' ? v : isObj(v) ? v.id : undefined;
+    if (typeof name !== 'string') throw ksyErr(`${path}/${k}`, 'expected enum value name');
+    return { name, value: parseNumber(k) };
+  });
+}
+function findEnum(parts: string[], scope: Scope, path: string): EnumValue[] {
+  const name = parts[parts.length - 1];
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    let t: KsyType | undefined = s.type;
+    for (const p of parts.slice(0, -1)) t = t?.types?.[p];
+    if (t && isObj(t.enums) && hasOwn(t.enums, name))
+      return enumValues(t.enums[name], `${s.path ? `${s.path}/` : ''}enums/${name}`);
+  }
+  throw ksyErr(path, `unknown enum ${parts.join('::')}`);
+}
+function findType(name: string, scope: Scope, path: string): Scope {
+  const parts = name.split('::');
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    let cur: Scope | undefined = s;
+    for (const p of parts) {
+      const types = cur.type.types;
+      if (!isObj(types) || !hasOwn(types, p)) {
+        cur = undefined;
+        break;
+      }
+      cur = typeScope(types[p], cur, `${cur.path ? `${cur.path}/` : ''}types/${p}`);
+    }
+    if (cur) return cur;
+  }
+  if (/\(/.test(name)) throw ksyErr(path, `unsupported parametric type ${name}`);
+  throw ksyErr(path, `unknown type ${name}`);
+}
+function typeScope(type: KsyType, parent: Scope | undefined, path: string): Scope {
+  if (!isObj(type)) throw ksyErr(path, 'expected type object');
+  checkKeys(type, TYPE_KEYS, path);
+  const meta = type.meta;
+  const scope: Scope = {
+    type,
+    path,
+    parent,
+    endian: parent?.endian,
+    encoding: parent?.encoding,
+  };
+  if (meta === undefined) return scope;
+  const mpath = `${path ? `${path}/` : ''}meta`;
+  if (!isObj(meta)) throw ksyErr(mpath, 'expected object');
+  if (meta.endian !== undefined) {
+    if (meta.endian !== 'le' && meta.endian !== 'be')
+      throw ksyErr(`${mpath}/endian`, `unsupported endian ${JSON.stringify(meta.endian)}`);
+    scope.endian = meta.endian;
+  }
+  if (meta['bit-endian'] !== undefined && meta['bit-endian'] !== 'be')
+    throw ksyErr(`${mpath}/bit-endian`, `unsupported bit-endian ${meta['bit-endian']}`);
+  if (meta.encoding !== undefined) scope.encoding = meta.encoding;
+  if (Array.isArray(meta.imports) && meta.imports.length)
+    throw ksyErr(`${mpath}/imports`, 'imports are not supported');
+  return scope;
+}
+function typeCoder(ctx: Ctx, scope: Scope): CoderType<any> {
+  const { type, path } = scope;
+  const cached = ctx.coders.get(type);
+  if (cached) return cached;
+  if (ctx.building.has(type)) return lazy(() => ctx.coders.get(type)!);
+  ctx.building.add(type);
+  const seq = type.seq || [];
+  const spath = `${path ? `${path}/` : ''}seq`;
+  if (!Array.isArray(seq)) throw ksyErr(spath, 'expected array');
+  const fields: Record<string, CoderType<any>> = {};
+  for (let i = 0; i < seq.length; i++) {
+    const attr = seq[i];
+    const apath = `${spath}/${i}`;
+    if (!isObj(attr)) throw ksyErr(apath, 'expected attribute object');
+    if (typeof attr.id !== 'string' || !IDENT.test(attr.id))
+      throw ksyErr(`${apath}/id`, `expected identifier, got ${attr.id}`);
+    if (hasOwn(fields, attr.id)) throw ksyErr(`${apath}/id`, `duplicate id ${attr.id}`);
+    fields[attr.id] = attrCoder(ctx, attr, scope, apath);
+  }
+  const res = struct(fields);
+  ctx.coders.set(type, res);
+  return res;
+}
+// Text encodings: UTF-8 uses P.string, single-byte ones are applied to bytes.
+function textCoder(encoding: string | undefined, len: Length, path: string): CoderType<string> {
+  if (encoding === undefined) throw ksyErr(path, 'expected encoding');
+  const enc = encoding.toUpperCase().replace(/[-_]/g, '');
+  if (enc === 'UTF8') return string(len);
+  const max = enc === 'ASCII' ? 0x7f : enc === 'ISO88591' || enc === 'LATIN1' ? 0xff : -1;
+  if (max === -1) throw ksyErr(path, `unsupported encoding ${encoding}`);
+  return apply(bytes(len), {
+    encode: (b: TArg<Bytes>) => {
+      if (b.some((c) => c > max)) throw new Error(`${encoding}: invalid byte`);
+      return Array.from(b, (c) => String.fromCharCode(c)).join('');
+    },
+    decode: (s: string) =>
+      Uint8Array.from(s, (c) => {
+        const code = c.charCodeAt(0);
+        if (code > max) throw new Error(`${encoding}: invalid character ${c}`);
+        return code;
+      }),
+  });
+}
+// process: xor(key) with an integer or a byte array constant
+function processCoder(process: string, scope: Scope, path: string): TRet<BaseCoder<Bytes, Bytes>> {
+  const m = /^xor\((.*)\)$/s.exec(process.trim());
+  if (!m) throw ksyErr(path, `unsupported process ${process}`);
+  const arg = m[1].trim();
+  const items = /^\[.*\]$/s.test(arg) ? arg.slice(1, -1).split(',') : [arg];
+  const key = Uint8Array.from(items, (i) => {
+    const v = evalConst(i.trim(), scope, path);
+    if (!isInt(v) || v < 0 || v > 255) throw ksyErr(path, `expected byte xor key, got ${i}`);
+    return Number(v);
+  });
+  if (!key.length) throw ksyErr(path, 'empty xor key');
+  const xor = (b: TArg<Bytes>) => b.map((c, i) => c ^ key[i % key.length]);
+  return { encode: xor, decode: xor };
+}
+function switchCoder(ctx: Ctx, sw: KsySwitch, scope: Scope, path: string): CoderType<any> {
+  checkKeys(sw, ['switch-on', 'cases'], path);
+  if (!isObj(sw.cases)) throw ksyErr(`${path}/cases`, 'expected object');
+  const src = sw['switch-on'];
+  const expr = parseExpr(src, scope, `${path}/switch-on`);
+  const variants: Record<string, CoderType<any>> = {};
+  const keys: [unknown, string | number][] = [];
+  for (const k in sw.cases) {
+    const cpath = `${path}/cases/${k}`;
+    const value = k === '_' ? '_' : evalConst(k, scope, cpath);
+    if (typeof value !== 'string' && !isInt(value))
+      throw ksyErr(cpath, `expected integer or string case, got ${k}`);
+    // Tag values are the decoded TAG: canonical integers are numbers, like in P.tag
+    const key = typeof value === 'string' ? value : Number(value);
+    if (hasOwn(variants, String(key))) throw ksyErr(cpath, `duplicate case ${k}`);
+    variants[String(key)] = typeRef(ctx, sw.cases[k], scope, cpath);
+    if (k !== '_') keys.push([value, key]);
+  }
+  const hasDefault = hasOwn(variants, '_');
+  const caseOf = (v: unknown) => {
+    for (const [value, key] of keys) if (same(v, value)) return key;
+    if (hasDefault) return '_';
+    throw new Error(`switch-on '${src}': no case for ${v}`);
+  };
+  return tag(exprCoder(String(src), expr, caseOf), variants);
+}
+// Type name without size: integers, floats, bits, strz and user types
+function typeRef(ctx: Ctx, name: unknown, scope: Scope, path: string): CoderType<any> {
+  if (typeof name !== 'string') throw ksyErr(path, `expected type name, got ${name}`);
+  const int = /^([us][1248]|f[48])(le|be)?$/.exec(name);
+  if (int) {
+    const endian = int[2] || (name === 'u1' || name === 's1' ? '' : scope.endian);
+    if (endian === undefined) throw ksyErr(path, `unknown endianness of ${name}`);
+    return INTS[int[1] + endian];
+  }
+  const b = /^b(\d+)(be)?$/.exec(name);
+  if (b) {
+    const len = Number(b[1]);
+    if (len !== 1) return bits(len);
+    // b1 is a boolean in Kaitai
+    return apply(bits(1), { encode: (v: number) => v === 1, decode: (v: boolean) => +v });
+  }
+  if (name === 'strz') return textCoder(scope.encoding, Uint8Array.of(0), path);
+  if (name === 'str') throw ksyErr(path, 'str without size');
+  return typeCoder(ctx, findType(name, scope, path));
+}
+function attrCoder(ctx: Ctx, attr: KsyAttr, scope: Scope, path: string): CoderType<any> {
+  checkKeys(attr, ATTR_KEYS, path);
+  const repeated = attr.repeat !== undefined;
+  let res: CoderType<any>;
+  if (attr.contents !== undefined) {
+    const c = attr.contents;
+    const parts = Array.isArray(c) ? c : [c];
+    const data = utils.concatBytes(
+      ...parts.map((p) => {
+        if (typeof p === 'string') return utf8.decode(p);
+        if (!isInt(p) || p < 0 || p > 255) throw ksyErr(`${path}/contents`, `invalid byte ${p}`);
+        return Uint8Array.of(Number(p));
+      })
+    );
+    for (const k of ['type', 'size', 'size-eos', 'process', 'terminator', 'encoding', 'enum'])
+      if (hasOwn(attr, k)) throw ksyErr(`${path}/${k}`, `cannot be used with contents`);
+    res = magicBytes(data);
+  } else {
+    // Byte length of the attribute: size, size-eos or terminator
+    let len: Length | undefined;
+    if (attr.size !== undefined) len = lengthOf(attr.size, scope, `${path}/size`, repeated);
+    if (attr['size-eos'] === true) {
+      if (len !== undefined) throw ksyErr(`${path}/size-eos`, 'cannot be used with size');
+      len = null;
+    }
+    if (attr.terminator !== undefined) {
+      const t = attr.terminator;
+      if (len !== undefined) throw ksyErr(`${path}/terminator`, 'cannot be used with size');
+      if (!isInt(t) || t < 0 || t > 255)
+        throw ksyErr(`${path}/terminator`, `expected byte, got ${t}`);
+      len = Uint8Array.of(Number(t));
+    }
+    const type = attr.type;
+    const process = attr.process;
+    if (process !== undefined && (typeof process !== 'string' || len === undefined))
+      throw ksyErr(`${path}/process`, 'expected string process of sized attribute');
+    const raw = (l: Length) =>
+      process === undefined
+        ? bytes(l)
+        : apply(bytes(l), processCoder(process, scope, `${path}/process`));
+    const encoding = attr.encoding !== undefined ? attr.encoding : scope.encoding;
+    if (type === undefined) {
+      if (len === undefined) throw ksyErr(path, 'expected type, size or contents');
+      res = raw(len);
+    } else if (type === 'str' || type === 'strz') {
+      if (type === 'strz') {
+        if (len !== undefined && attr.terminator === undefined)
+          throw ksyErr(`${path}/size`, 'sized strz is not supported');
+        len = len || Uint8Array.of(0);
+      }
+      if (len === undefined) throw ksyErr(path, 'str without size');
+      res =
+        process === undefined
+          ? textCoder(encoding, len, `${path}/encoding`)
+          : apply(raw(len), coders.reverse(textCoder(encoding, null, `${path}/encoding`)));
+    } else {
+      if (attr.encoding !== undefined) throw ksyErr(`${path}/encoding`, 'used with non-string');
+      const inner = isObj(type)
+        ? switchCoder(ctx, type as KsySwitch, scope, `${path}/type`)
+        : typeRef(ctx, type, scope, `${path}/type`);
+      // Sized user types decode from their own substream, like P.prefix
+      if (len === undefined) res = inner;
+      else if (process === undefined) res = prefix(len, inner);
+      else res = apply(raw(len), coders.reverse(inner));
+    }
+    if (attr.enum !== undefined) {
+      if (typeof attr.enum !== 'string') throw ksyErr(`${path}/enum`, 'expected enum name');
+      const values = findEnum(attr.enum.split('::'), scope, `${path}/enum`);
+      const variants: Record<string, number | bigint> = {};
+      for (const { name, value } of values) variants[name] = value;
+      if (typeof type !== 'string' || !/^([us][1248]|b\d+)(le|be)?$/.test(type))
+        throw ksyErr(`${path}/enum`, 'expected integer type');
+      // 64-bit integers decode as bigints
+      if (/^[us]8/.test(type)) for (const k in variants) variants[k] = BigInt(variants[k]);
+      else for (const k in variants) variants[k] = Number(variants[k]);
+      res = map(res, variants);
+    }
+  }
+  if (attr.repeat !== undefined) {
+    const rpath = `${path}/repeat`;
+    if (attr.repeat === 'eos') res = array(null, res);
+    else if (attr.repeat === 'expr') {
+      if (attr['repeat-expr'] === undefined) throw ksyErr(rpath, 'expected repeat-expr');
+      res = array(lengthOf(attr['repeat-expr'], scope, `${path}/repeat-expr`, false), res);
+    } else if (attr.repeat === 'until') {
+      const src = attr['repeat-until'];
+      if (src === undefined) throw ksyErr(rpath, 'expected repeat-until');
+      res = untilArray(String(src), parseExpr(src, scope, `${path}/repeat-until`), res);
+    } else throw ksyErr(rpath, `unsupported repeat ${attr.repeat}`);
+  } else if (attr['repeat-expr'] !== undefined || attr['repeat-until'] !== undefined)
+    throw ksyErr(path, 'expected repeat');
+  if (attr.if !== undefined) {
+    const src = attr.if;
+    if (typeof src === 'string' && IDENT.test(src) && !LEVELS.some((l) => l.includes(src)))
+      res = flagged(src, res);
+    else res = optional(exprCoder(String(src), parseExpr(src, scope, `${path}/if`), Boolean), res);
+  }
+  return res;
+}
+// repeat: until. Unlike array terminators, the element that matches is the last one of the array.
+function untilArray<T>(src: string, expr: Expr, inner: CoderType<T>): CoderType<T[]> {
+  return wrap({
+    encodeStream: (w: TArg<Writer>, value: T[]) => {
+      const _w = w as InstanceType<typeof _TEST._Writer>;
+      if (!value.length) throw w.err(`repeat-until '${src}': empty array`);
+      _w.pushObj(value, () => {
+        for (let i = 0; i < value.length; i++) {
+          _w.enterField(i);
+          inner.encodeStream(w, value[i]);
+          if (!!evaluate(w, expr, value[i]) !== (i === value.length - 1))
+            throw w.err(`repeat-until '${src}': must be true for the last element only`);
+          _w.exitField();
+        }
+      });
+    },
+    decodeStream: (r: TArg<Reader>): T[] => {
+      const res: T[] = [];
+      const _r = r as InstanceType<typeof _TEST._Reader>;
+      _r.pushObj(res, () => {
+        for (let i = 0; ; i++) {
+          _r.enterField(i);
+          const progress = _r.progress();
+          const elm = inner.decodeStream(r);
+          if (_r.progress() === progress)
+            throw r.err('repeat-until: inner decoder did not consume input');
+          res.push(elm);
+          _r.exitField();
+          if (evaluate(r, expr, elm)) break;
+        }
+      });
+      return res;
+    },
+  });
+}
+
+/**
+ * Builds a coder from a Kaitai Struct spec (`.ksy` parsed from YAML). Every type becomes
+ * `P.struct`, repeats are `P.array`, `switch-on` types are `P.tag` (decoded as `{ TAG, data }`,
+ * `TAG` is the case or `'_'`), conditional attributes are `P.flagged`/`P.optional`, enums are
+ * `P.map`, encodings and `process: xor` use `P.apply`. Expressions (sizes, `if`, `repeat-expr`,
+ * `repeat-until`, `switch-on`) are evaluated against decoded fields and checked on encode.
+ *
+ * Supported: `seq`, `types`, `enums`, `meta` (`endian`, `encoding`), `type` (integers, floats,
+ * `bN`, `str`, `strz`, user types, `switch-on`), `size`, `size-eos`, `terminator`, `contents`,
+ * `encoding` (UTF-8, ASCII, ISO-8859-1), `enum`, `process: xor(...)`, `repeat`, `if`.
+ * Anything else (`instances`, `params`, `valid`, `pos`, other processes) throws.
+ *
+ * Note: sized user types decode from their own substream (like `P.prefix`), so their
+ * expressions cannot use `_parent`.
+ * @param spec - Parsed KSY spec.
+ * @returns Coder for the root type.
+ * @throws On unsupported or invalid constructs, with the KSY path. {@link Error}
+ * @throws On wrong argument types. {@link TypeError}
+ * @example
+ * Import a spec parsed with any YAML library.
+ * ```ts
+ * import { fromKsy } from 'micro-packed/ksy.js';
+ * const packet = fromKsy({
+ *   meta: { id: 'packet', endian: 'le' },
+ *   seq: [
+ *     { id: 'magic', contents: [0xca, 0xfe] },
+ *     { id: 'len', type: 'u2' },
+ *     { id: 'body', size: 'len' },
+ *   ],
+ * });
+ * packet.decode(Uint8Array.of(0xca, 0xfe, 1, 0, 7)); // { len: 1, body: Uint8Array.of(7) }
+ * ```
+ */
+export function fromKsy(spec: KsyType): CoderType<any> {
+  if (!isObj(spec)) throw new TypeError(`fromKsy: expected object, got ${spec}`);
+  const ctx: Ctx = { coders: new Map(), building: new Set() };
+  return typeCoder(ctx, typeScope(spec, undefined, ''));
+}
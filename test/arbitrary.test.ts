@@ -0,0 +1,119 @@
+import { describe, it } from '@paulmillr/jsbt/test.js';
+import * as fc from 'fast-check';
+import { deepStrictEqual as eql, throws } from 'node:assert';
+import { arbitrary } from '../src/arbitrary.ts';
+import * as P from '../src/index.ts';
+
+const roundtrips = (coder: P.CoderType<any>, opts?: Parameters<typeof arbitrary>[1]) =>
+  fc.assert(fc.property(arbitrary(fc, coder, opts), P.checkRoundtrip(coder)), { numRuns: 100 });
+const values = <T>(arb: fc.Arbitrary<T>) => fc.sample(arb, { numRuns: 100, seed: 1 });
+
+describe('arbitrary', () => {
+  it('bounds', () => {
+    for (const v of values(
+      arbitrary(fc, P.tuple([P.I8, P.U16LE, P.U64BE, P.bits(3), P.bits(5)]))
+    )) {
+      eql(v[0] >= -128 && v[0] <= 127, true);
+      eql(v[1] >= 0 && v[1] <= 0xffff, true);
+      eql(typeof v[2] === 'bigint' && v[2] >= 0n && v[2] < 2n ** 64n, true);
+      eql(v[3] >= 0 && v[3] < 8, true);
+    }
+    for (const v of values(
+      arbitrary(fc, P.struct({ s: P.string(4), b: P.bytes(P.U8), a: P.array(3, P.U8) }))
+    )) {
+      eql(P.utils.isBytes(v.b), true);
+      eql(v.a.length, 3);
+    }
+    const m = values(arbitrary(fc, P.map(P.U8, { a: 1, b: 2 })));
+    eql(new Set(m), new Set(['a', 'b']));
+    const bs = values(arbitrary(fc, P.bitset(['x', 'y'], true)));
+    eql(Object.keys(bs[0]), ['x', 'y']);
+    for (const v of values(arbitrary(fc, P.struct({ m: P.magic(P.U8, 7), c: P.constant(5) }))))
+      eql(v, { m: undefined, c: 5 });
+    for (const v of values(arbitrary(fc, P.array(null, P.U8), { maxLength: 2 })))
+      eql(v.length <= 2, true);
+  });
+  it('roundtrip', () => {
+    roundtrips(
+      P.tuple([P.U8, P.I32BE, P.U256BE, P.uleb128, P.sleb128big, P.F32LE, P.F64BE, P.bool])
+    );
+    roundtrips(
+      P.struct({
+        a: P.cstring,
+        b: P.string(P.U8),
+        c: P.hex(P.U8),
+        d: P.hex(2, { isLE: false, with0x: true }),
+        e: P.typedArray(2, 'u16le'),
+        f: P.typedArray(P.U8, 'i64be'),
+        g: P.optional(P.bool, P.U16LE),
+        h: P.padLeft(4, P.U8, undefined),
+      })
+    );
+    roundtrips(
+      P.struct({
+        t: P.tag(P.U8, { 1: P.U16LE, 2: P.cstring }),
+        mt: P.mappedTag(P.U8, { x: [1, P.U8], y: [2, P.magic(P.U8, 0)] }),
+        v: P.validate(P.U8, (x) => {
+          if (x > 100) throw new Error('too big');
+          return x;
+        }),
+        fl: P.flag(Uint8Array.of(1)),
+      })
+    );
+    const pb = P.protobuf;
+    roundtrips(
+      pb.message({
+        id: [1, pb.uint64],
+        tags: [2, pb.packed(pb.int32)],
+        s: [3, pb.repeated(pb.string)],
+      })
+    );
+    roundtrips(P.rlp);
+  });
+  it('length and flag fields', () => {
+    const c = P.struct({
+      len: P.U8,
+      s: P.string('len'),
+      count: P.U16LE,
+      items: P.array(
+        'count',
+        P.struct({ l: P.U8, data: P.bytes('l'), up: P.array('../../count', P.U8) })
+      ),
+      has: P.bool,
+      ext: P.flagged('has', P.U32LE),
+    });
+    for (const v of values(arbitrary(fc, c))) {
+      eql(v.len, new TextEncoder().encode(v.s).length);
+      eql(v.count, v.items.length);
+      eql(v.has, v.ext !== undefined);
+    }
+    roundtrips(c);
+  });
+  it('lazy recursion', () => {
+    type Tree = { name: string; children: Tree[] };
+    const tree: P.CoderType<Tree> = P.struct({
+      name: P.cstring,
+      children: P.array(
+        P.U8,
+        P.lazy(() => tree)
+      ),
+    });
+    const depth = (t: Tree): number => 1 + Math.max(0, ...t.children.map(depth));
+    for (const v of values(arbitrary(fc, tree, { maxDepth: 2 }))) eql(depth(v) <= 3, true);
+    roundtrips(tree);
+  });
+  it('overrides and errors', () => {
+    throws(() => arbitrary(fc, P.struct({ c: P.cbor })), {
+      message: 'arbitrary: cannot derive values of cbor coder, pass it in overrides',
+    });
+    roundtrips(P.struct({ c: P.cbor }), { overrides: new Map([[P.cbor, fc.integer()]]) });
+    // Not byte-aligned: encode rejects every value
+    throws(() => fc.sample(arbitrary(fc, P.bits(3)), 1), /arbitrary: 1000 generated values/);
+    throws(() => arbitrary(fc, {} as any), TypeError);
+    throws(() => arbitrary({} as any, P.U8), TypeError);
+    throws(() => arbitrary(fc, P.U8, { maxLength: -1 }), TypeError);
+    throws(() => arbitrary(fc, P.U8, { overrides: {} as any }), TypeError);
+  });
+});
+
+it.runWhen(import.meta.url);
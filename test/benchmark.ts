@@ -26,11 +26,44 @@ const STRUCTS = {
   floats32: { coder: P.array(P.U32LE, P.F32LE), value: BUF },
   floats64: { coder: P.array(P.U32LE, P.F64LE), value: BUF },
 };
+// Fixed layout: interpreted vs P.compile
+const FIXED = P.struct({
+  id: P.U32LE,
+  flags: P.U16BE,
+  pos: P.tuple([P.F64LE, P.F64LE, P.F64LE]),
+  hash: P.bytes(32),
+  samples: P.array(8, P.I32LE),
+});
+const FIXED_VALUE = {
+  id: 12345,
+  flags: 7,
+  pos: [1.5, -2.25, 3] as [number, number, number],
+  hash: new Uint8Array(32).fill(1),
+  samples: [1, -2, 3, -4, 5, -6, 7, -8],
+};
 
 export async function main() {
   const encoded = P.U8.encode(5);
   await mark('basic encode', () => P.U8.encode(5));
   await mark('basic decode', () => P.U8.decode(encoded));
+  const fixedEncoded = FIXED.encode(FIXED_VALUE);
+  for (const [name, coder] of [
+    ['interpreted', FIXED],
+    ['compiled', P.compile(FIXED)],
+    ['compiled, no codegen', P.compile(FIXED, { codegen: false })],
+  ] as const) {
+    await mark(`fixed struct encode (${name})`, () => coder.encode(FIXED_VALUE));
+    await mark(`fixed struct decode (${name})`, () => coder.decode(fixedEncoded));
+  }
+  // Numeric arrays: per-element vs bulk typed array
+  const samples = P.array(P.U32LE, P.I16LE);
+  const typedSamples = P.typedArray(P.U32LE, 'i16le');
+  const sampleValues = Int16Array.from({ length: 100_000 }, (_, i) => i - 50_000);
+  const samplesEncoded = typedSamples.encode(sampleValues);
+  await mark('100k samples encode (array)', () => samples.encode(Array.from(sampleValues)));
+  await mark('100k samples encode (typedArray)', () => typedSamples.encode(sampleValues));
+  await mark('100k samples decode (array)', () => samples.decode(samplesEncoded));
+  await mark('100k samples decode (typedArray)', () => typedSamples.decode(samplesEncoded));
   for (let [name, { coder, value }] of Object.entries(STRUCTS)) {
     const encoded = coder.encode(value);
     // await compare(name, name === 'complex' ? 1_000_000 : SAMPLES, {
@@ -0,0 +1,173 @@
+import { describe, it } from '@paulmillr/jsbt/test.js';
+import { deepStrictEqual as eql, throws } from 'node:assert';
+import { dts } from '../src/codegen.ts';
+import * as P from '../src/index.ts';
+
+const lines = (...l: string[]) => l.join('\n') + '\n';
+
+describe('codegen', () => {
+  it('primitives', () => {
+    eql(dts(P.U8), lines('export type Value = number;'));
+    eql(dts(P.U64LE, { name: 'Id' }), lines('export type Id = bigint;'));
+    eql(dts(P.array(P.U8, P.cstring)), lines('export type Value = string[];'));
+    eql(dts(P.typedArray(4, 'u64be')), lines('export type Value = BigUint64Array;'));
+    eql(
+      dts(P.tuple([P.U8, P.bytes(2), P.hex(null)])),
+      lines('export type Value = [number, Uint8Array, string];')
+    );
+    eql(dts(P.map(P.U8, { a: 1, "b'c": 2 })), lines(`export type Value = 'a' | 'b\\'c';`));
+    eql(
+      dts(P.array(null, P.optional(P.bool, P.U8))),
+      lines('export type Value = (number | undefined)[];')
+    );
+    // decoded type of apply/wrap is not known at runtime
+    eql(dts(P.apply(P.U8, P.coders.numberBigint as any)), lines('export type Value = unknown;'));
+  });
+  it('struct keys', () => {
+    const s = P.struct({
+      len: P.U8,
+      magic: P.magic(P.U8, 1),
+      extra: P.flagged('len', P.U16BE),
+      opt: P.optional(P.bool, P.cstring, ''),
+      flag: P.flag(Uint8Array.of(1)),
+      nil: P.asn1.null,
+      'x-y': P.bitset(['a', 'b']),
+    });
+    eql(
+      dts(s, { name: 'Msg' }),
+      lines(
+        'export interface Msg {',
+        '  len: number;',
+        '  extra?: number | undefined;',
+        '  opt?: string | undefined;',
+        '  flag?: boolean | undefined;',
+        '  nil?: null;',
+        "  'x-y': { a: boolean; b: boolean };",
+        '}'
+      )
+    );
+  });
+  it('nested structs', () => {
+    const Point = P.struct({ x: P.I16BE, y: P.I16BE });
+    const s = P.struct({
+      from: Point,
+      to: Point,
+      path: P.array(P.U8, P.struct({ id: P.U8 })),
+      body: P.tag(P.U8, { 1: P.struct({ a: P.U8 }), 2: P.magic(P.U8, 0) }),
+      kind: P.mappedTag(P.U8, { ping: [1, P.U8] }),
+    });
+    eql(
+      dts(s),
+      lines(
+        'export interface Value {',
+        '  from: ValueFrom;',
+        '  to: ValueFrom;',
+        '  path: ValuePath[];',
+        '  body: { TAG: 1; data: ValueBody1 } | { TAG: 2 };',
+        "  kind: { TAG: 'ping'; data: number };",
+        '}',
+        'export interface ValueFrom {',
+        '  x: number;',
+        '  y: number;',
+        '}',
+        'export interface ValuePath {',
+        '  id: number;',
+        '}',
+        'export interface ValueBody1 {',
+        '  a: number;',
+        '}'
+      )
+    );
+  });
+  it('lazy recursion', () => {
+    type Tree = { name: string; children: Tree[] };
+    const tree: P.CoderType<Tree> = P.struct({
+      name: P.cstring,
+      children: P.array(
+        P.U8,
+        P.lazy(() => tree)
+      ),
+    });
+    eql(
+      dts(P.struct({ root: tree }), { name: 'Doc' }),
+      lines(
+        'export interface Doc {',
+        '  root: DocRoot;',
+        '}',
+        'export interface DocRoot {',
+        '  name: string;',
+        '  children: DocRoot[];',
+        '}'
+      )
+    );
+    type Expr = { TAG: 'num'; data: number } | { TAG: 'list'; data: Expr[] };
+    const expr: P.CoderType<Expr> = P.mappedTag(P.U8, {
+      num: [0, P.U8],
+      list: [
+        1,
+        P.array(
+          P.U8,
+          P.lazy(() => expr)
+        ),
+      ],
+    });
+    eql(
+      dts(P.tuple([P.lazy(() => expr)]), { name: 'T' }),
+      lines(
+        'export type T = [T0];',
+        "export type T0 = { TAG: 'num'; data: number } | { TAG: 'list'; data: T0[] };"
+      )
+    );
+    // lazy() that builds a new struct on every call
+    const node: P.CoderType<Tree> = P.lazy(() =>
+      P.struct({ name: P.cstring, children: P.array(P.U8, node) })
+    );
+    eql(
+      dts(P.struct({ root: node }), { name: 'Doc' }),
+      lines(
+        'export interface Doc {',
+        '  root: DocRoot;',
+        '}',
+        'export interface DocRoot {',
+        '  name: string;',
+        '  children: DocRoot[];',
+        '}'
+      )
+    );
+  });
+  it('formats', () => {
+    const pb = P.protobuf;
+    eql(
+      dts(pb.message({ id: [1, pb.uint64], tags: [2, pb.packed(pb.int32)] }), { name: 'Pb' }),
+      lines(
+        'export interface Pb {',
+        '  id?: bigint;',
+        '  tags?: number[];',
+        '  $unknown?: { field: number; wire: 0 | 1 | 2 | 5; data: Uint8Array }[];',
+        '}'
+      )
+    );
+    eql(
+      dts(P.struct({ c: P.cbor, r: P.rlp, t: P.asn1.utcTime, b: P.asn1.bitString })),
+      lines(
+        "import type { Asn1BitString, CborValue, RlpValue } from 'micro-packed';",
+        'export interface Value {',
+        '  c: CborValue;',
+        '  r: RlpValue;',
+        '  t: Date;',
+        '  b: Asn1BitString;',
+        '}'
+      )
+    );
+  });
+  it('errors', () => {
+    throws(() => dts({} as any), TypeError);
+    throws(() => dts(P.U8, { name: 'not valid' }), {
+      name: 'TypeError',
+      message: 'dts/name: expected identifier, got not valid',
+    });
+    throws(() => dts(P.U8, null as any), TypeError);
+  });
+});
+
+it.runWhen(import.meta.url);
@@ -160,6 +160,79 @@ it('wrap unknown columns', () => {
   }
 });
 
+it('inspect', () => {
+  const enc = testStruct.encode({ a: 1234, b: 'test', c: [1, 2] });
+  eql(PD.inspect(testStruct, enc), {
+    fields: [
+      { path: ['a'], start: 0, end: 4, data: enc.subarray(0, 4), value: 1234, level: 0 },
+      { path: ['b'], start: 4, end: 9, data: enc.subarray(4, 9), value: 'test', level: 0 },
+      {
+        path: ['c', 'arrayLen'],
+        start: 9,
+        end: 10,
+        data: Uint8Array.of(2),
+        value: undefined,
+        level: 1,
+      },
+      { path: ['c', 0], start: 10, end: 12, data: Uint8Array.of(0, 1), value: 1, level: 1 },
+      { path: ['c', 1], start: 12, end: 14, data: Uint8Array.of(0, 2), value: 2, level: 1 },
+    ],
+    value: { a: 1234, b: 'test', c: [1, 2] },
+  });
+  // Fields before the error are kept, the rest of input is unclaimed
+  const res = PD.inspect(testStruct, enc.subarray(0, 13));
+  eql(res.value, undefined);
+  eql(res.error!.message, 'Reader(c): array: length=2 elements of size=2 exceed 3 bytes left');
+  eql(
+    res.fields.map((f) => [f.path, f.start, f.end]),
+    [
+      [['a'], 0, 4],
+      [['b'], 4, 9],
+      [['c', 'arrayLen'], 9, 10],
+      [['(???)'], 10, 13],
+    ]
+  );
+  // Same hex / base64 input as decode
+  eql(PD.inspect(P.U8, '01').fields, [
+    { path: [], start: 0, end: 1, data: Uint8Array.of(1), value: 1, level: 0 },
+  ]);
+  // Root value, then bytes left over
+  const left = PD.inspect(P.U8, Uint8Array.of(1, 2));
+  eql(left.fields, [
+    { path: [], start: 0, end: 1, data: Uint8Array.of(1), value: 1, level: 0 },
+    { path: ['(???)'], start: 1, end: 2, data: Uint8Array.of(2), value: undefined, level: 0 },
+  ]);
+});
+
+it('stringify', () => {
+  eql(
+    PD.stringify({ n: 1n, b: Uint8Array.of(1, 255), u: Uint16Array.of(258), s: 'x', m: undefined }),
+    '{"n":{"bigint":"1"},"b":{"hex":"01ff"},"u":[258],"s":"x"}'
+  );
+  const coder = P.struct({ big: P.U64BE, data: P.bytes(1) });
+  const res = PD.inspect(coder, Uint8Array.of(0, 0, 0, 0, 0, 0, 0, 1));
+  eql(JSON.parse(PD.stringify(res)), {
+    fields: [
+      {
+        path: ['big'],
+        start: 0,
+        end: 8,
+        data: { hex: '0000000000000001' },
+        value: { bigint: '1' },
+        level: 0,
+      },
+      // Failing field
+      { path: ['data'], start: 8, end: 8, data: { hex: '' }, level: 0 },
+    ],
+    error: {
+      error: 'Reader(data): readBytes: Unexpected end of buffer',
+      code: 'TRUNCATED',
+      path: ['data'],
+    },
+  });
+  eql(PD.stringify([1n], 1), '[\n {\n  "bigint": "1"\n }\n]');
+});
+
 it('PSBT1', () => {
   const CASE1 =
     'cHNidP8BAJoCAAAAAljoeiG1ba8MI76OcHBFbDNvfLqlyHV5JPVFiHuyq911AAAAAAD/////g40EJ9DsZQpoqka7CwmK6kQiwHGyyng1Kgd5WdB86h0BAAAAAP////8CcKrwCAAAAAAWABTYXCtx0AYLCcmIauuBXlCZHdoSTQDh9QUAAAAAFgAUAK6pouXw+HaliN9VRuh0LR2HAI8AAAAAAAEAuwIAAAABqtc5MQGL0l+ErkALaISL4J23BurCrBgpi6vucatlb4sAAAAASEcwRAIgWPb8fGoz4bMVSNSByCbAFb0wE1qtQs1neQ2rZtKtJDsCIEoc7SYExnNbY5PltBaR3XiwDwxZQvufdRhW+qk4FX26Af7///8CgPD6AgAAAAAXqRQPuUY0IWlrgsgzryQceMF9295JNIfQ8gonAQAAABepFCnKdPigj4GZlCgYXJe12FLkBj9hh2UAAAAiAgKVg785rgpgl0etGZrd1jT6YQhVnWxc05tMIYPxq5bgf0cwRAIgdAGK1BgAl7hzMjwAFXILNoTMgSOJEEjn282bVa1nnJkCIHPTabdA4+tT3O+jOCPIBwUUylWn3ZVE8VfBZ5EyYRGMASICAtq2H/SaFNtqfQKwzR+7ePxLGDErW05U2uTbovv+9TbXRzBEAiBjGpif5zipKtAZhgIzEsGSFP4oArOeXLwaw2eIBsaSwwIgOdtsOHvSZ3Ft/bPU2NpQuOhdITMmunx9qqTAzkHrkiMBAQMEAQAAAAEER1IhApWDvzmuCmCXR60Zmt3WNPphCFWdbFzTm0whg/GrluB/IQLath/0mhTban0CsM0fu3j8SxgxK1tOVNrk26L7/vU211KuIgYClYO/Oa4KYJdHrRma3dY0+mEIVZ1sXNObTCGD8auW4H8Q2QxqTwAAAIAAAACAAAAAgCIGAtq2H/SaFNtqfQKwzR+7ePxLGDErW05U2uTbovv+9TbXENkMak8AAACAAAAAgAEAAIAAAQEgAMLrCwAAAAAXqRS39fr0Dj1ApaRZsds1NfK3L6kh6IciAgI63ZBPPW3PWd25BrDe4jUpt/+57VDl6GFRkmhgIh8Oc0cwRAIgZfRbpZmLWaJ//hp77QFq8fH5DVSzqo90UKpfVqJRA70CIH9yRwOtHtuWaAsoS1bU/8uI9/t1nqu+CKow8puFE4PSASICAwidwQx6xttU+RMpr2FzM9s4jOrQwjH3IzedG5kDCwLcRzBEAiBi63pVYQenxz9FrEq1od3fb3B1+xJ1lpp/OD7/94S8sgIgDAXbt0cNvy8IVX3TVscyXB7TCRPpls04QJRdsSIo2l8BAQMEAQAAAAEEIgAgjCNTFzdDtZXftKB7crqOQuN5fadOh/59nXSX47ICiQMBBUdSIQMIncEMesbbVPkTKa9hczPbOIzq0MIx9yM3nRuZAwsC3CECOt2QTz1tz1nduQaw3uI1Kbf/ue1Q5ehhUZJoYCIfDnNSriIGAjrdkE89bc9Z3bkGsN7iNSm3/7ntUOXoYVGSaGAiHw5zENkMak8AAACAAAAAgAMAAIAiBgMIncEMesbbVPkTKa9hczPbOIzq0MIx9yM3nRuZAwsC3BDZDGpPAAAAgAAAAIACAACAACICA6mkw39ZltOqJdusa1cK8GUDlEkpQkYLNUdT7Z7spYdxENkMak8AAACAAAAAgAQAAIAAIgICf2OZdX0u/1WhNq0CxoSxg4tlVuXxtrNCgqlLa1AFEJYQ2QxqTwAAAIAAAACABQAAgAA=';
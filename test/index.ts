@@ -1,4 +1,7 @@
 import { should } from '@paulmillr/jsbt/test.js';
+import './codegen.test.ts';
+import './ksy.test.ts';
+import './arbitrary.test.ts';
 import './debugger.test.ts';
 import './packed.test.ts';
 import './utils.test.ts';
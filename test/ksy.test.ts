@@ -0,0 +1,183 @@
+import { describe, it } from '@paulmillr/jsbt/test.js';
+import { deepStrictEqual as eql, throws } from 'node:assert';
+import * as P from '../src/index.ts';
+import { fromKsy } from '../src/ksy.ts';
+
+const roundtrip = (coder: P.CoderType<any>, bytes: Uint8Array, value: any) => {
+  eql(coder.decode(bytes), value);
+  eql(coder.encode(value), bytes);
+};
+
+describe('ksy', () => {
+  it('basic', () => {
+    const c = fromKsy({
+      meta: { id: 'basic', endian: 'be', encoding: 'UTF-8' },
+      seq: [
+        { id: 'magic', contents: ['MZ', 0] },
+        { id: 'len', type: 'u2' },
+        { id: 'data', size: 'len' },
+        { id: 'le', type: 's4le' },
+        { id: 'big', type: 'u8' },
+        { id: 'name', type: 'strz' },
+        { id: 'tail', type: 'str', size: 2, encoding: 'ASCII' },
+        { id: 'flag', type: 'b1' },
+        { id: 'rest', type: 'b7' },
+      ],
+    });
+    roundtrip(
+      c,
+      Uint8Array.from([
+        0x4d, 0x5a, 0, 0, 2, 7, 8, 0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0, 0, 0, 0, 9, 0x61, 0, 0x6f,
+        0x6b, 0x83,
+      ]),
+      {
+        magic: undefined,
+        len: 2,
+        data: Uint8Array.of(7, 8),
+        le: -1,
+        big: 9n,
+        name: 'a',
+        tail: 'ok',
+        flag: true,
+        rest: 3,
+      }
+    );
+    // Same coders as hand-written
+    eql(
+      P.describe(fromKsy({ meta: { endian: 'le' }, seq: [{ id: 'n', type: 'u2' }] })),
+      P.describe(P.struct({ n: P.U16LE }))
+    );
+  });
+  it('types, enums and switch', () => {
+    const c = fromKsy({
+      meta: { id: 'msg', endian: 'le', encoding: 'UTF-8' },
+      seq: [
+        { id: 'kind', type: 'u1', enum: 'kinds' },
+        {
+          id: 'body',
+          type: {
+            'switch-on': 'kind',
+            cases: { 'kinds::text': 'text', 'kinds::point': 'point', _: 'u1' },
+          },
+        },
+      ],
+      types: {
+        text: { seq: [{ id: 'value', type: 'str', 'size-eos': true }] },
+        point: {
+          meta: { endian: 'be' },
+          seq: [
+            { id: 'x', type: 'u2' },
+            { id: 'y', type: 'u2' },
+          ],
+        },
+      },
+      enums: { kinds: { 1: 'text', 2: 'point', 3: { id: 'other' } } },
+    });
+    roundtrip(c, Uint8Array.of(2, 0, 1, 0, 2), {
+      kind: 'point',
+      body: { TAG: 'point', data: { x: 1, y: 2 } },
+    });
+    roundtrip(c, Uint8Array.of(3, 5), { kind: 'other', body: { TAG: '_', data: 5 } });
+    // Tag must match the switch-on expression
+    throws(() => c.encode({ kind: 'other', body: { TAG: 'point', data: { x: 1, y: 2 } } }));
+  });
+  it('repeat and if', () => {
+    const c = fromKsy({
+      meta: { id: 'list', endian: 'le' },
+      seq: [
+        { id: 'version', type: 'u1' },
+        { id: 'count', type: 'u1' },
+        { id: 'items', type: 'item', repeat: 'expr', 'repeat-expr': 'count' },
+        { id: 'extra', type: 'u2', if: 'version >= 2 and count != 0' },
+        { id: 'has_crc', type: 'u1' },
+        { id: 'crc', type: 'u1', if: 'has_crc' },
+        { id: 'words', type: 'u1', repeat: 'until', 'repeat-until': '_ == 0' },
+        { id: 'sizes', size: 'count * 2 - 1', repeat: 'expr', 'repeat-expr': 2 },
+        { id: 'rest', type: 'u1', repeat: 'eos' },
+      ],
+      types: {
+        item: {
+          seq: [
+            { id: 'len', type: 'u1' },
+            { id: 'data', size: 'len', process: 'xor([0xff, 1])' },
+            { id: 'ver', type: 'u1', if: '_parent.version == 2' },
+          ],
+        },
+      },
+    });
+    const value = {
+      version: 2,
+      count: 1,
+      items: [{ len: 2, data: Uint8Array.of(1, 2), ver: 9 }],
+      extra: 0x102,
+      has_crc: 0,
+      crc: undefined,
+      words: [5, 0],
+      sizes: [Uint8Array.of(1), Uint8Array.of(2)],
+      rest: [7, 8],
+    };
+    roundtrip(c, Uint8Array.of(2, 1, 2, 0xfe, 3, 9, 2, 1, 0, 5, 0, 1, 2, 7, 8), value);
+    // Lengths are checked on encode
+    throws(() => c.encode({ ...value, count: 2 }));
+    throws(() => c.encode({ ...value, words: [0, 5] }));
+  });
+  it('recursive types', () => {
+    const c = fromKsy({
+      meta: { id: 'tree' },
+      seq: [{ id: 'root', type: 'node' }],
+      types: {
+        node: {
+          seq: [
+            { id: 'value', type: 'u1' },
+            { id: 'count', type: 'u1' },
+            { id: 'children', type: 'node', repeat: 'expr', 'repeat-expr': 'count' },
+          ],
+        },
+      },
+    });
+    const leaf = { value: 2, count: 0, children: [] };
+    roundtrip(c, Uint8Array.of(1, 1, 2, 0), { root: { value: 1, count: 1, children: [leaf] } });
+  });
+  it('errors', () => {
+    const err = (spec: any, message: string) => throws(() => fromKsy(spec), { message });
+    throws(() => fromKsy(null as any), TypeError);
+    err({ seq: [{ id: 'x', type: 'u2' }] }, 'fromKsy(seq/0/type): unknown endianness of u2');
+    err({ seq: [{ id: 'x', type: 'u1', valid: 1 }] }, "fromKsy(seq/0): unsupported key 'valid'");
+    err(
+      { seq: [{ id: 'x', type: 'a' }], types: { a: { instances: {} } } },
+      "fromKsy(types/a): unsupported key 'instances'"
+    );
+    err({ seq: [{ id: 'x', type: 'foo' }] }, 'fromKsy(seq/0/type): unknown type foo');
+    err(
+      { seq: [{ id: 'x', size: 'len +' }] },
+      "fromKsy(seq/0/size): unexpected end in expression 'len +'"
+    );
+    err(
+      { seq: [{ id: 'x', size: '_io.size' }] },
+      "fromKsy(seq/0/size): unsupported _io in expression '_io.size'"
+    );
+    err(
+      { seq: [{ id: 'x', size: 2, process: 'zlib' }] },
+      'fromKsy(seq/0/process): unsupported process zlib'
+    );
+    err(
+      { seq: [{ id: 'x', type: 'str', size: 1, encoding: 'SJIS' }] },
+      'fromKsy(seq/0/encoding): unsupported encoding SJIS'
+    );
+    err(
+      { meta: { endian: { 'switch-on': 'x' } } },
+      'fromKsy(meta/endian): unsupported endian {"switch-on":"x"}'
+    );
+    err({ seq: [{ id: 'x', type: 'u1' }, { id: 'x' }] }, 'fromKsy(seq/1/id): duplicate id x');
+    // Expressions check operand types at decode time
+    const neg = fromKsy({
+      seq: [
+        { id: 'a', type: 'str', size: 1, encoding: 'UTF-8' },
+        { id: 'b', size: '-a' },
+      ],
+    });
+    throws(() => neg.decode(Uint8Array.of(0x61)), /cannot apply - to a/);
+  });
+});
+
+it.runWhen(import.meta.url);
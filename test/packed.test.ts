@@ -1,6 +1,6 @@
 import { describe, it } from '@paulmillr/jsbt/test.js';
-import { hex } from '@scure/base';
-import { deepStrictEqual as eql, throws } from 'node:assert';
+import { hex, utf8 } from '@scure/base';
+import { deepStrictEqual as eql, rejects, throws } from 'node:assert';
 import * as PD from '../src/debugger.ts';
 import * as P from '../src/index.ts';
 
@@ -18,10 +18,22 @@ const test = (name, v) => {
         const decoded = v.p.decode(hex.decode(expHex));
         eql(decoded, expVal, 'decode');
         eql(hex.encode(v.p.encode(decoded)), expHex, 'encode(decode)');
+        eql(v.p.encodedLength(expVal), encoded.length, 'encodedLength');
+        const arena = new Uint8Array(encoded.length + 4).fill(0xaa);
+        eql(v.p.encodeInto(expVal, arena, 2), encoded.length, 'encodeInto');
+        eql(hex.encode(arena), `aaaa${expHex}aaaa`, 'encodeInto');
+        // Trailing bytes would be consumed by coders that read until the end of input.
+        const prefixed = v.p.decodePrefix(arena.subarray(0, encoded.length + 2), 2);
+        eql(prefixed, { value: expVal, bytesRead: encoded.length }, 'decodePrefix');
       }
     });
     it('err values', () => {
-      for (const value of v.errValues || []) throws(() => v.p.encode(value));
+      for (const value of v.errValues || []) {
+        throws(() => v.p.encode(value));
+        // Fixed-size coders report their size without looking at the value
+        if (v.p.size === undefined) throws(() => v.p.encodedLength(value));
+        else eql(v.p.encodedLength(value), v.p.size);
+      }
     });
     it('err hex', () => {
       for (const value of v.errHex || []) throws(() => v.p.decode(toBytes(value)));
@@ -169,6 +181,161 @@ describe('primitives', () => {
     ],
     errValues: [16777216 + 1, 2 ** 128],
   });
+  test('uleb128', {
+    p: P.uleb128,
+    correct: [
+      [0, '00'],
+      [1, '01'],
+      [127, '7f'],
+      [128, '8001'],
+      [300, 'ac02'],
+      [624485, 'e58e26'],
+      [Number.MAX_SAFE_INTEGER, 'ffffffffffffff0f'],
+    ],
+    errValues: [-1, 1.5, 2 ** 53, 1n],
+    errHex: ['', '80', '8000', 'ff00', '808080808080808080808001', '8080808080808080808002'],
+  });
+  test('sleb128', {
+    p: P.sleb128,
+    correct: [
+      [0, '00'],
+      [1, '01'],
+      [-1, '7f'],
+      [63, '3f'],
+      [64, 'c000'],
+      [-64, '40'],
+      [-65, 'bf7f'],
+      [-123456, 'c0bb78'],
+      [Number.MIN_SAFE_INTEGER, '8180808080808070'],
+    ],
+    errValues: [1.5, 2 ** 53, 1n],
+    errHex: ['', '80', '8000', 'ff7f', 'c0ff7f', '808080808080808080808001'],
+  });
+  test('uleb128big', {
+    p: P.uleb128big,
+    correct: [
+      [0n, '00'],
+      [300n, 'ac02'],
+      [2n ** 64n - 1n, 'ffffffffffffffffff01'],
+    ],
+    errValues: [-1n, 2n ** 64n, 1],
+    errHex: ['ffffffffffffffffff02', 'ffffffffffffffffff8101', 'ffffffffffffffffff7f00'],
+  });
+  test('sleb128big', {
+    p: P.sleb128big,
+    correct: [
+      [0n, '00'],
+      [-1n, '7f'],
+      [2n ** 63n - 1n, 'ffffffffffffffffff00'],
+      [-(2n ** 63n), '8080808080808080807f'],
+    ],
+    errValues: [2n ** 63n, -(2n ** 63n) - 1n, 1],
+    errHex: ['ffffffffffffffffff01', '80808080808080808078', '80808080808080808077'],
+  });
+  test('varint.compactSize', {
+    p: P.varint.compactSize,
+    correct: [
+      [0, '00'],
+      [0xfc, 'fc'],
+      [0xfd, 'fdfd00'],
+      [0xffff, 'fdffff'],
+      [0x10000, 'fe00000100'],
+      [0xffffffff, 'feffffffff'],
+      [2 ** 32, 'ff0000000001000000'],
+    ],
+    errValues: [-1, 1.5, 2 ** 53],
+    errHex: ['', 'fd', 'fdfc00', 'fe00fd0000', 'feffff0000', 'ffffffffff00000000'],
+  });
+  test('varint.compactSizeBig', {
+    p: P.varint.compactSizeBig,
+    correct: [[2n ** 64n - 1n, 'ffffffffffffffffff']],
+    errValues: [-1n, 2n ** 64n],
+  });
+  test('varint.quic', {
+    p: P.varint.quic,
+    // RFC 9000, appendix A.1
+    correct: [
+      [37, '25'],
+      [15293, '7bbd'],
+      [494878333, '9d7f3e7d'],
+    ],
+    errValues: [-1, 2 ** 53],
+    errHex: ['4025', '80000025', 'c000000000000025', '7b'],
+  });
+  test('varint.quicBig', {
+    p: P.varint.quicBig,
+    correct: [
+      [151288809941952652n, 'c2197c5eff14e88c'],
+      [2n ** 62n - 1n, 'ffffffffffffffff'],
+    ],
+    errValues: [2n ** 62n],
+  });
+  test('varint.vlq', {
+    p: P.varint.vlq,
+    // MIDI variable-length quantities
+    correct: [
+      [0, '00'],
+      [0x40, '40'],
+      [0x7f, '7f'],
+      [0x80, '8100'],
+      [0x2000, 'c000'],
+      [0x3fff, 'ff7f'],
+      [0x4000, '818000'],
+      [0x0fffffff, 'ffffff7f'],
+    ],
+    errValues: [-1, 2 ** 53],
+    errHex: ['', '80', '8000', '807f', '8181818181818181818100'],
+  });
+  test('varint.sqliteBig', {
+    p: P.varint.sqliteBig,
+    correct: [
+      [0n, '00'],
+      [240n, '8170'],
+      [2n ** 56n - 1n, 'ffffffffffffff7f'],
+      [2n ** 56n, '80c080808080808000'],
+      [2n ** 64n - 1n, 'ffffffffffffffffff'],
+    ],
+    errValues: [-1n, 2n ** 64n],
+    errHex: ['8000', '808080808080808001', 'ffffffffffffffff'],
+  });
+  it('varint as length', () => {
+    const s = P.struct({
+      a: P.array(P.compactSize, P.U8),
+      b: P.prefix(P.varint.quic, P.string(null)),
+      c: P.bytes(P.varint.sqlite),
+    });
+    eql(P.compactSize.size, undefined);
+    const value = { a: new Array(300).fill(7), b: 'quic', c: Uint8Array.of(1, 2) };
+    const encoded = s.encode(value);
+    eql(hex.encode(encoded.subarray(0, 3)), 'fd2c01');
+    eql(s.decode(encoded), value);
+    throws(() => s.decode(Uint8Array.of(0xfd, 0x01, 0x00)), {
+      message: 'Reader(a/arrayLen): compactSize: non-minimal encoding',
+    });
+    throws(() => P.varint.quicBig.encode(1 as any), {
+      name: 'TypeError',
+      message: 'Writer(): quic: invalid value: 1',
+    });
+  });
+  it('leb128 errors and length', () => {
+    throws(() => P.uleb128.decode(Uint8Array.of(0x80, 0x00)), {
+      message: 'Reader(): uleb128: non-minimal encoding',
+    });
+    throws(() => P.sleb128.decode(Uint8Array.of(0xff, 0x7f)), {
+      message: 'Reader(): sleb128: non-minimal encoding',
+    });
+    throws(() => P.uleb128big.decode(new Uint8Array(11).fill(0x80)), {
+      message: 'Reader(): uleb128: too many bytes for 64-bit value',
+    });
+    const s = P.struct({ items: P.array(P.uleb128, P.U8), name: P.string(P.uleb128) });
+    const value = { items: new Array(200).fill(1), name: 'leb' };
+    const encoded = s.encode(value);
+    eql(hex.encode(encoded.subarray(0, 2)), 'c801');
+    eql(s.decode(encoded), value);
+    throws(() => s.decode(Uint8Array.of(0x80, 0x00, 0x00)), {
+      message: 'Reader(items/arrayLen): uleb128: non-minimal encoding',
+    });
+  });
   it('float NaN encodings are canonical', () => {
     const nan32 = new DataView(Uint8Array.of(0x7f, 0xc0, 0x00, 0x01).buffer).getFloat32(0, false);
     const nan64 = new DataView(
@@ -1509,6 +1676,130 @@ describe('structures', () => {
       throws(() => a.decode(new Uint8Array([1, 0, 2, 0, 1, 2])));
     });
   });
+  describe('typedArray', () => {
+    test('typedArray/u16le', {
+      p: P.typedArray(P.U8, 'u16le'),
+      correct: [
+        [new Uint16Array(0), '00'],
+        [Uint16Array.of(1, 0x1234, 65535), '0301003412ffff'],
+      ],
+      errValues: [[1, 2], Int16Array.of(1), Uint8Array.of(1), new Uint16Array(256)],
+    });
+    test('typedArray/i32be', {
+      p: P.typedArray(2, 'i32be'),
+      correct: [[Int32Array.of(-1, 0x12345678), 'ffffffff12345678']],
+      errValues: [Int32Array.of(1), Int32Array.of(1, 2, 3)],
+    });
+    test('typedArray/u64le', {
+      p: P.typedArray(null, 'u64le'),
+      correct: [[BigUint64Array.of(1n, 2n ** 64n - 1n), '0100000000000000ffffffffffffffff']],
+    });
+    test('typedArray/f64be', {
+      p: P.typedArray(P.U16BE, 'f64be'),
+      correct: [[Float64Array.of(1.5, -0), '00023ff80000000000008000000000000000']],
+    });
+    test('typedArray/i8', {
+      p: P.typedArray(Uint8Array.of(0x80, 0), 'i8'),
+      correct: [
+        [Int8Array.of(1, -128, 2), '0180028000'],
+        [new Int8Array(0), '8000'],
+      ],
+    });
+    it('same bytes as array', () => {
+      const types = {
+        u16le: P.U16LE,
+        u16be: P.U16BE,
+        i16le: P.I16LE,
+        i16be: P.I16BE,
+        u32le: P.U32LE,
+        u32be: P.U32BE,
+        i32le: P.I32LE,
+        i32be: P.I32BE,
+        u64le: P.U64LE,
+        u64be: P.U64BE,
+        i64le: P.I64LE,
+        i64be: P.I64BE,
+        f32le: P.F32LE,
+        f32be: P.F32BE,
+        f64le: P.F64LE,
+        f64be: P.F64BE,
+      };
+      for (const [type, inner] of Object.entries(types)) {
+        const t = P.typedArray(P.U32LE, type);
+        const a = P.array(P.U32LE, inner);
+        const big = type.startsWith('u64') || type.startsWith('i64');
+        const values = [0, 1, 2, 3, 100].map((i) => (big ? BigInt(i) : i));
+        if (type[0] === 'i') values.push(big ? -5n : -5);
+        if (type[0] === 'f') values.push(0.5, -Infinity);
+        const encoded = a.encode(values);
+        eql(t.encode(t.decode(encoded)), encoded, type);
+        eql(Array.from(t.decode(encoded)), values, type);
+      }
+    });
+    it('decoded arrays own their memory', () => {
+      const t = P.typedArray(2, 'u32le');
+      const data = Uint8Array.of(0xff, 1, 0, 0, 0, 2, 0, 0, 0);
+      // unaligned input offset
+      const res = t.decode(data.subarray(1));
+      eql(res, Uint32Array.of(1, 2));
+      data.fill(0);
+      eql(res, Uint32Array.of(1, 2));
+      // subarray input: only the view is encoded
+      eql(
+        t.encode(Uint32Array.of(7, 1, 2, 9).subarray(1, 3)),
+        Uint8Array.of(1, 0, 0, 0, 2, 0, 0, 0)
+      );
+    });
+    it('length forms', () => {
+      const s = P.struct({ count: P.U8, data: P.typedArray('count', 'u16be') });
+      eql(s.encode({ count: 2, data: Uint16Array.of(1, 2) }), Uint8Array.of(2, 0, 1, 0, 2));
+      eql(s.decode(Uint8Array.of(2, 0, 1, 0, 2)), { count: 2, data: Uint16Array.of(1, 2) });
+      throws(() => s.encode({ count: 3, data: Uint16Array.of(1, 2) }), {
+        message: 'Writer(data): Wrong length: 3 len=count exp=2 (number)',
+      });
+      eql(P.typedArray(3, 'u16le').size, 6);
+      eql(P.typedArray(P.U8, 'u16le').size, undefined);
+      // null: trailing partial element is an error, even in prefix decoding
+      throws(() => P.typedArray(null, 'u16le').decode(Uint8Array.of(1, 0, 2)), {
+        message: 'Reader(): typedArray: 1 trailing bytes do not form an element',
+      });
+      throws(
+        () =>
+          P.typedArray(null, 'u16le').decode(Uint8Array.of(1, 0, 2), { allowUnreadBytes: true }),
+        { message: 'Reader(): typedArray: 1 trailing bytes do not form an element' }
+      );
+      // terminator is only matched at element boundaries
+      const term = P.typedArray(Uint8Array.of(0, 0), 'u16be');
+      eql(term.decode(Uint8Array.of(0, 1, 0, 0)), Uint16Array.of(1));
+      eql(term.decode(Uint8Array.of(1, 0, 0, 2, 0, 0)), Uint16Array.of(256, 2));
+      throws(() => term.encode(Uint16Array.of(1, 0)), {
+        message: 'Writer(): typedArray: element 1 encoding same as terminator',
+      });
+      throws(() => term.decode(Uint8Array.of(0, 1, 0)), {
+        message: 'Reader(): typedArray: cannot find terminator',
+        code: 'TRUNCATED',
+      });
+    });
+    it('errors', () => {
+      throws(() => P.typedArray(P.U32LE, 'u32le').decode(Uint8Array.of(255, 255, 255, 255, 0)), {
+        message: 'Reader(): typedArray: length=4294967295 elements of size=4 exceed 1 bytes left',
+      });
+      const s = P.stream(P.typedArray(P.U8, 'u32le'));
+      eql(s.push(Uint8Array.of(2, 1, 0, 0)), []);
+      eql(s.push(Uint8Array.of(0, 2, 0, 0, 0)), [Uint32Array.of(1, 2)]);
+      throws(() => P.typedArray(1, 'u128le'), {
+        name: 'TypeError',
+        message: 'typedArray: unknown type u128le',
+      });
+      throws(() => P.typedArray(1, 'constructor'), TypeError);
+      throws(() => P.typedArray(1, {}), TypeError);
+      throws(() => P.typedArray({}, 'u8'), TypeError);
+      throws(() => P.typedArray(1, 'u8').encode([1]), {
+        code: 'INVALID_TYPE',
+        message: 'Writer(): typedArray: expected Uint8Array, got 1',
+      });
+    });
+  });
   describe('bytes', () => {
     it('sz=null', () => {
       const a = P.bytes(null);
@@ -2860,6 +3151,2281 @@ describe('structures', () => {
   });
 });
 
+describe('protobuf', () => {
+  const pb = P.protobuf;
+  const Test1 = pb.message({ a: [1, pb.int32] });
+  // https://protobuf.dev/programming-guides/encoding/
+  test('message', {
+    p: pb.message({
+      a: [1, pb.int32],
+      b: [2, pb.string],
+      c: [3, Test1],
+      d: [4, pb.packed(pb.int32)],
+    }),
+    correct: [
+      [{}, ''],
+      [{ a: 150 }, '089601'],
+      [{ b: 'testing' }, '120774657374696e67'],
+      [{ c: { a: 150 } }, '1a03089601'],
+      [{ d: [3, 270, 86942] }, '2206038e029ea705'],
+      [{ a: -1 }, '08ffffffffffffffffff01'],
+    ],
+    errValues: [{ a: 2 ** 31 }, { b: 1 }, { c: { a: 'x' } }, { d: 1 }, 1],
+    errHex: ['08', '0880', '089601089601', '0a0474657374', '0f', '00', '08ffffffffffffffff7f01'],
+  });
+  test('scalars', {
+    p: pb.message({
+      u32: [1, pb.uint32],
+      s32: [2, pb.sint32],
+      s64: [3, pb.sint64],
+      u64: [4, pb.uint64],
+      i64: [5, pb.int64],
+      b: [6, pb.bool],
+      f32: [7, pb.fixed32],
+      sf64: [8, pb.sfixed64],
+      d: [9, pb.double],
+      raw: [10, pb.bytes],
+    }),
+    correct: [
+      [{ s32: -1 }, '1001'],
+      [{ s32: 1 }, '1002'],
+      [{ s32: -2147483648 }, '10ffffffff0f'],
+      [{ s64: -(2n ** 63n) }, '18ffffffffffffffffff01'],
+      [{ u32: 4294967295 }, '08ffffffff0f'],
+      [{ u64: 2n ** 64n - 1n }, '20ffffffffffffffffff01'],
+      [{ i64: -2n }, '28feffffffffffffffff01'],
+      [{ b: true }, '3001'],
+      [{ f32: 1 }, '3d01000000'],
+      [{ sf64: -1n }, '41ffffffffffffffff'],
+      [{ d: 1 }, '49000000000000f03f'],
+      [{ raw: Uint8Array.of(1, 2) }, '52020102'],
+    ],
+    errValues: [{ u32: -1 }, { s32: 2 ** 31 }, { b: 1 }, { u64: -1n }],
+    errHex: ['3002', '08ffffffff1f', '10ffffffff1f'],
+  });
+  it('out of order and unknown fields', () => {
+    const Msg = pb.message({ a: [1, pb.uint32], b: [2, pb.string] });
+    eql(Msg.decode(hex.decode('12026869082a')), { b: 'hi', a: 42 });
+    eql(hex.encode(Msg.encode({ b: 'hi', a: 42 })), '082a12026869');
+    // fields 3 (varint), 4 (len), 5 (fixed64), 6 (fixed32)
+    const unknownHex = '18ac02' + '220178' + '290100000000000000' + '3502000000';
+    const decoded = Msg.decode(hex.decode('082a' + unknownHex));
+    eql(decoded, {
+      a: 42,
+      $unknown: [
+        { field: 3, wire: 0, data: Uint8Array.of(0xac, 0x02) },
+        { field: 4, wire: 2, data: Uint8Array.of(0x78) },
+        { field: 5, wire: 1, data: Uint8Array.of(1, 0, 0, 0, 0, 0, 0, 0) },
+        { field: 6, wire: 5, data: Uint8Array.of(2, 0, 0, 0) },
+      ],
+    });
+    eql(hex.encode(Msg.encode(decoded)), '082a' + unknownHex);
+    throws(() => Msg.decode(hex.decode('1b')), {
+      message: 'Reader(): protobuf: unsupported wire type 3 for field 3',
+    });
+    throws(() => Msg.encode({ $unknown: [{ field: 1, wire: 0, data: Uint8Array.of(1) }] }), {
+      message: 'Writer($unknown): protobuf: unknown field 1 is known',
+    });
+  });
+  it('repeated', () => {
+    const Msg = pb.message({
+      nums: [1, pb.repeated(pb.uint32)],
+      packed: [2, pb.packed(pb.sint32)],
+      names: [3, pb.repeated(pb.string)],
+    });
+    const value = { nums: [1, 2], packed: [-1, 1], names: ['a', 'b'] };
+    eql(hex.encode(Msg.encode(value)), '08010802120201021a01611a0162');
+    eql(Msg.decode(hex.decode('08010802120201021a01611a0162')), value);
+    // Parsers accept both packed and expanded forms of repeated scalars
+    eql(Msg.decode(hex.decode('0a0201021001')), { nums: [1, 2], packed: [-1] });
+    eql(Msg.decode(hex.decode('0a0101080212010112010a')), { nums: [1, 2], packed: [-1, 5] });
+    throws(() => Msg.decode(hex.decode('0d01000000')), {
+      message: 'Reader(nums): protobuf: wrong wire type 5 for field 1',
+    });
+    throws(() => pb.packed(pb.string));
+    throws(() => pb.repeated(1 as any));
+  });
+  it('error paths', () => {
+    const Inner = pb.message({ x: [1, pb.repeated(pb.uint32)], y: [2, pb.bool] });
+    const Outer = pb.message({ id: [1, pb.uint32], inner: [2, Inner] });
+    throws(() => Outer.decode(hex.decode('080112021002')), {
+      message: 'Reader(inner/y): Error: bool: invalid value 2',
+    });
+    throws(() => Outer.decode(hex.decode('0801120410011001')), {
+      message: 'Reader(inner/y): protobuf: duplicate field 2',
+    });
+    throws(() => Outer.decode(hex.decode('080112030801088080')), {
+      message: 'Reader(inner/x/1): readByte: Unexpected end of buffer',
+    });
+    throws(() => Outer.encode({ inner: { x: [1, -1] } }), {
+      message:
+        'Writer(inner/x/1): Error: value out of unsigned bounds. Expected 0 <= -1 < 4294967296',
+    });
+  });
+  it('invalid definitions', () => {
+    throws(() => pb.message([] as any), TypeError);
+    throws(() => pb.message({ a: [0, pb.int32] }), TypeError);
+    throws(() => pb.message({ a: [2 ** 29, pb.int32] }), TypeError);
+    throws(() => pb.message({ a: [1, pb.int32], b: [1, pb.int32] }), TypeError);
+    throws(() => pb.message({ a: [1, 1] } as any), TypeError);
+    throws(() => pb.message({ a: 1 } as any), TypeError);
+    throws(() => pb.message({ $unknown: [1, pb.int32] }), TypeError);
+    throws(() => pb.message({ 'a/b': [1, pb.int32] }), TypeError);
+  });
+  it('embedded coder', () => {
+    const Msg = pb.message({ id: [1, pb.uint32], point: [2, P.struct({ x: P.U8, y: P.U8 })] });
+    eql(hex.encode(Msg.encode({ id: 1, point: { x: 1, y: 2 } })), '080112020102');
+    eql(Msg.decode(hex.decode('080112020102')), { id: 1, point: { x: 1, y: 2 } });
+    throws(() => Msg.decode(hex.decode('08011203010203')), {
+      message: 'Reader(point): 1 bytes 0 bits left after unpack: 03',
+    });
+    const Framed = P.array(null, P.prefix(P.U8, Msg));
+    eql(Framed.decode(hex.decode('020801020802')), [{ id: 1 }, { id: 2 }]);
+  });
+});
+
+describe('cbor', () => {
+  const tag = (t, v) => new P.CborTag(t, v);
+  // RFC 8949, Appendix A
+  test('rfc8949', {
+    p: P.cbor,
+    correct: [
+      [0, '00'],
+      [23, '17'],
+      [24, '1818'],
+      [1000, '1903e8'],
+      [1000000, '1a000f4240'],
+      [1000000000000, '1b000000e8d4a51000'],
+      [18446744073709551615n, '1bffffffffffffffff'],
+      [18446744073709551616n, 'c249010000000000000000'],
+      [-18446744073709551616n, '3bffffffffffffffff'],
+      [-18446744073709551617n, 'c349010000000000000000'],
+      [-1, '20'],
+      [-1000, '3903e7'],
+      [-0, 'f98000'],
+      [0.5, 'f93800'],
+      [1.1, 'fb3ff199999999999a'],
+      [1.5, 'f93e00'],
+      [3.4028234663852886e38, 'fa7f7fffff'],
+      [1.0e300, 'fb7e37e43c8800759c'],
+      [5.960464477539063e-8, 'f90001'],
+      [0.00006103515625, 'f90400'],
+      [-4.1, 'fbc010666666666666'],
+      [Infinity, 'f97c00'],
+      [NaN, 'f97e00'],
+      [-Infinity, 'f9fc00'],
+      [false, 'f4'],
+      [true, 'f5'],
+      [null, 'f6'],
+      [undefined, 'f7'],
+      [tag(0, '2013-03-21T20:04:00Z'), 'c074323031332d30332d32315432303a30343a30305a'],
+      [tag(1, 1363896240.5), 'c1fb41d452d9ec200000'],
+      [tag(23, hex.decode('01020304')), 'd74401020304'],
+      [new Uint8Array(), '40'],
+      [hex.decode('01020304'), '4401020304'],
+      ['', '60'],
+      ['IETF', '6449455446'],
+      ['ü', '62c3bc'],
+      ['𐅑', '64f0908591'],
+      [[], '80'],
+      [[1, [2, 3], [4, 5]], '8301820203820405'],
+      [{}, 'a0'],
+      [
+        new Map([
+          [1, 2],
+          [3, 4],
+        ]),
+        'a201020304',
+      ],
+      [{ a: 1, b: [2, 3] }, 'a26161016162820203'],
+      [['a', { b: 'c' }], '826161a161626163'],
+    ],
+    errValues: [Symbol('x'), () => 1, [1, new Date(0)], { a: 1n, b: 'x', c: new Set() }, '\ud800'],
+    errHex: [
+      '',
+      '1c',
+      'ff',
+      'f818',
+      'f0',
+      '1bff',
+      'c2',
+      '81',
+      '3fff',
+      'df00',
+      '5f6101ff',
+      '9f01',
+      'a2616101616102',
+      'a20101f93c0001',
+      'c26161',
+      '62c328',
+    ],
+  });
+  it('indefinite lengths', () => {
+    const dec = (h) => P.cbor.decode(hex.decode(h));
+    eql(dec('5f42010243030405ff'), hex.decode('0102030405'));
+    eql(dec('7f657374726561646d696e67ff'), 'streaming');
+    eql(dec('9fff'), []);
+    eql(dec('9f018202039f0405ffff'), [1, [2, 3], [4, 5]]);
+    eql(dec('83019f0203ff820405'), [1, [2, 3], [4, 5]]);
+    eql(dec('bf61610161629f0203ffff'), { a: 1, b: [2, 3] });
+    eql(dec('bf6346756ef563416d7421ff'), { Fun: true, Amt: -2 });
+    // Non-preferred forms are accepted, but re-encoded in preferred form.
+    eql(dec('1817'), 23);
+    eql(dec('fa47c35000'), 100000);
+    eql(dec('c24101'), 1n);
+    eql(dec(['f9', '7e01'].join('')), NaN);
+  });
+  it('values', () => {
+    const rt = (v) => P.cbor.decode(P.cbor.encode(v));
+    eql(rt(2n ** 64n - 1n), 2n ** 64n - 1n);
+    eql(rt(-(2n ** 70n)), -(2n ** 70n));
+    // Small bigints and safe integers share the same integer encoding.
+    eql(rt(5n), 5);
+    eql(rt(2 ** 53), 2 ** 53);
+    eql(rt(65504.5), 65504.5);
+    eql(hex.encode(P.cbor.encode(65504.5)), 'fa477fe080');
+    eql(hex.encode(P.cbor.encode(2 ** 53)), 'fa5a000000');
+    eql(
+      rt(
+        new Map<any, any>([
+          [[1], 'x'],
+          ['a', 1],
+        ])
+      ),
+      new Map<any, any>([
+        [[1], 'x'],
+        ['a', 1],
+      ])
+    );
+    // Prototype-sensitive keys stay in a Map.
+    const proto = P.cbor.decode(hex.decode('a1695f5f70726f746f5f5f01'));
+    eql(proto instanceof Map, true);
+    eql((proto as Map<string, number>).get('__proto__'), 1);
+    throws(() => new P.CborTag(-1, 1), TypeError);
+    throws(() => new P.CborTag(2n ** 64n, 1), TypeError);
+  });
+  it('deterministic', () => {
+    const det = P.cbor.deterministic;
+    const map = new Map<any, any>([
+      ['aa', 1],
+      [100, 2],
+      [-1, 3],
+      ['z', 4],
+      [10, 5],
+      [false, 6],
+      [[100], 7],
+    ]);
+    // RFC 8949, section 4.2.1: keys sorted by bytewise order of their encodings.
+    const sorted = 'a70a051864022003617a046261610181186407f406';
+    eql(hex.encode(det.encode(map)), sorted);
+    eql(hex.encode(det.encode({ b: 1, a: 2 })), 'a2616102616201');
+    eql(hex.encode(P.cbor.encode({ b: 1, a: 2 })), 'a2616201616102');
+    eql(det.decode(hex.decode(sorted)), map);
+    throws(
+      () =>
+        det.encode(
+          new Map<any, any>([
+            [1, 1],
+            [1n, 2],
+          ])
+        ),
+      {
+        message: 'Writer(): cbor: duplicate map key',
+      }
+    );
+    for (const [h, msg] of [
+      ['1817', 'non-minimal argument encoding'],
+      ['f93c00', 'integral float'],
+      ['fa3fc00000', 'non-preferred float encoding'],
+      ['fb7ff8000000000000', 'non-preferred float encoding'],
+      ['f97e01', 'non-canonical NaN'],
+      ['5f4101ff', 'indefinite length'],
+      ['a2616201616102', 'unsorted map keys'],
+      ['c24101', 'non-minimal bignum encoding'],
+    ])
+      throws(() => det.decode(hex.decode(h)), { message: `Reader(): cbor: ${msg}` });
+  });
+  it('composition', () => {
+    const s = P.struct({ version: P.U8, meta: P.cbor, data: P.prefix(P.U16BE, P.cbor) });
+    const value = { version: 1, meta: { a: [1, 2.5] }, data: new Map([[1, -7]]) };
+    const bytes = s.encode(value);
+    eql(hex.encode(bytes), '01a161618201f941000003a10126');
+    eql(s.decode(bytes), value);
+    throws(() => s.decode(hex.decode('01a1616182011c')), {
+      message: 'Reader(meta/a/1): cbor: reserved additional information 28',
+    });
+    throws(() => s.encode({ ...value, meta: { a: [1, Symbol('x')] } }), {
+      message: 'Writer(meta/a/1): cbor: unsupported value type symbol',
+    });
+    throws(() => s.decode(hex.decode('01a1616162c328')), /Reader\(meta\/a\): /);
+    // A single item leaves trailing bytes to the caller.
+    throws(() => P.cbor.decode(hex.decode('0101')));
+    eql(P.array(null, P.cbor).decode(hex.decode('01616180')), [1, 'a', []]);
+    eql(P.bytes(null).decode(P.cbor.encode(hex.decode('aa'))), hex.decode('41aa'));
+  });
+  it('nesting limit', () => {
+    const nested = (n) => P.utils.concatBytes(new Uint8Array(n).fill(0x81), Uint8Array.of(0));
+    eql(P.cbor.decode(nested(3)), [[[0]]]);
+    P.cbor.decode(nested(256));
+    for (const data of [nested(257), nested(200_000), new Uint8Array(200_000).fill(0xc6)]) {
+      throws(
+        () => P.cbor.decode(data),
+        (e) => e instanceof P.PackedError && e.code === 'MAX_DEPTH'
+      );
+    }
+  });
+});
+
+describe('msgpack', () => {
+  const ext = (t, v) => new P.MsgpackExt(t, v);
+  test('basic', {
+    p: P.msgpack,
+    correct: [
+      [null, 'c0'],
+      [false, 'c2'],
+      [true, 'c3'],
+      [0, '00'],
+      [127, '7f'],
+      [128, 'cc80'],
+      [256, 'cd0100'],
+      [65536, 'ce00010000'],
+      [2 ** 32, 'cf0000000100000000'],
+      [2n ** 64n - 1n, 'cfffffffffffffffff'],
+      [-1, 'ff'],
+      [-32, 'e0'],
+      [-33, 'd0df'],
+      [-129, 'd1ff7f'],
+      [-32769, 'd2ffff7fff'],
+      [-(2 ** 31) - 1, 'd3ffffffff7fffffff'],
+      [-(2n ** 63n), 'd38000000000000000'],
+      [1.5, 'ca3fc00000'],
+      [1.1, 'cb3ff199999999999a'],
+      [-0, 'ca80000000'],
+      [NaN, 'ca7fc00000'],
+      ['', 'a0'],
+      ['a', 'a161'],
+      ['a'.repeat(32), 'd920' + '61'.repeat(32)],
+      ['a'.repeat(256), 'da0100' + '61'.repeat(256)],
+      [Uint8Array.of(1), 'c40101'],
+      [[1, 2], '920102'],
+      [new Array(16).fill(0), 'dc0010' + '00'.repeat(16)],
+      [{ a: 1 }, '81a16101'],
+      [new Map<any, any>([[1, 'x']]), '8101a178'],
+      [ext(5, Uint8Array.of(1)), 'd40501'],
+      [ext(-1, new Uint8Array(4)), 'd6ff00000000'],
+      [ext(3, Uint8Array.of(1, 2, 3)), 'c70303010203'],
+    ],
+    errValues: [undefined, 2n ** 64n, -(2n ** 63n) - 1n, Symbol('x'), [new Date(0)], ext(1, 1)],
+    errHex: ['', 'c1', 'cc', '92', '9201', 'dc0003', 'a2c328', '82a16101a16102', '8201cc01cc0101'],
+  });
+  it('non-minimal forms', () => {
+    eql(P.msgpack.decode(hex.decode('cc01')), 1);
+    eql(P.msgpack.decode(hex.decode('d90161')), 'a');
+    eql(P.msgpack.decode(hex.decode('cb3ff8000000000000')), 1.5);
+    eql(P.msgpack.decode(hex.decode('cf001fffffffffffff')), Number.MAX_SAFE_INTEGER);
+    eql(P.msgpack.decode(hex.decode('cf0020000000000000')), 2n ** 53n);
+  });
+  it('ext registry', () => {
+    const Point = P.struct({ x: P.I16BE, y: P.I16BE });
+    const mp = P.msgpack.ext({ 1: Point, [-2]: P.cstring });
+    const value = {
+      name: 'p',
+      at: ext(1, { x: 1, y: -1 }),
+      tag: ext(-2, 'hi'),
+      raw: ext(7, P.EMPTY),
+    };
+    const bytes = mp.encode(value);
+    eql(hex.encode(bytes), '84a46e616d65a170a26174d6010001ffffa3746167c703fe686900a3726177c70007');
+    eql(mp.decode(bytes), value);
+    // Without the registry, payloads stay raw bytes.
+    eql(P.msgpack.decode(bytes).at, ext(1, hex.decode('0001ffff')));
+    throws(() => mp.decode(hex.decode('81a26174d5010001')), {
+      message: 'Reader(at/y): readView: Unexpected end of buffer',
+    });
+    throws(() => mp.decode(hex.decode('81a26174d701000100020003000400')), {
+      message: 'Reader(at): 4 bytes 0 bits left after unpack: 00030004',
+    });
+    // Ext payloads are complete even when the outer input may have trailing bytes
+    throws(() => mp.decode(hex.decode('d70100010002000300040a'), { allowUnreadBytes: true }), {
+      message: 'Reader(): 4 bytes 0 bits left after unpack: 00030004',
+    });
+    throws(() => mp.encode({ at: ext(1, { x: 1, y: 2 ** 15 }) }), /Writer\(at\/y\)/);
+    throws(() => P.msgpack.ext({ 128: Point }), TypeError);
+    throws(() => P.msgpack.ext({ a: Point }), TypeError);
+    throws(() => P.msgpack.ext({ 1: 1 } as any), TypeError);
+    throws(() => new P.MsgpackExt(-129, P.EMPTY), TypeError);
+  });
+  it('composition', () => {
+    const s = P.struct({ a: P.U8, m: P.msgpack, arr: P.array(P.U8, P.msgpack) });
+    const value = { a: 1, m: { x: [1] }, arr: [1, 'a', null] };
+    eql(hex.encode(s.encode(value)), '0181a17891010301a161c0');
+    eql(s.decode(s.encode(value)), value);
+    throws(() => s.decode(hex.decode('0181a178910103c1a161c0')), {
+      message: 'Reader(arr/0): msgpack: unused format byte 0xc1',
+    });
+    throws(() => P.msgpack.decode(hex.decode('0102')));
+    eql(P.msgpack.decode(hex.decode('0102'), { allowUnreadBytes: true }), 1);
+  });
+  it('nesting limit', () => {
+    const nested = (n) => P.utils.concatBytes(new Uint8Array(n).fill(0x91), Uint8Array.of(0));
+    eql(P.msgpack.decode(nested(3)), [[[0]]]);
+    P.msgpack.decode(nested(256));
+    for (const data of [nested(257), nested(200_000)]) {
+      throws(
+        () => P.msgpack.decode(data),
+        (e) => e instanceof P.PackedError && e.code === 'MAX_DEPTH'
+      );
+    }
+  });
+});
+
+describe('rlp', () => {
+  const str = (s) => utf8.decode(s);
+  const lorem = 'Lorem ipsum dolor sit amet, consectetur adipisicing elit';
+  // https://ethereum.org/en/developers/docs/data-structures-and-encoding/rlp/
+  test('basic', {
+    p: P.rlp,
+    correct: [
+      [str('dog'), '83646f67'],
+      [[str('cat'), str('dog')], 'c88363617483646f67'],
+      [P.EMPTY, '80'],
+      [[], 'c0'],
+      [Uint8Array.of(0), '00'],
+      [Uint8Array.of(0x0f), '0f'],
+      [Uint8Array.of(0x80), '8180'],
+      [Uint8Array.of(4, 0), '820400'],
+      [[[], [[]], [[], [[]]]], 'c7c0c1c0c3c0c1c0'],
+      [str(lorem), 'b838' + hex.encode(str(lorem))],
+      [[str(lorem)], 'f83ab838' + hex.encode(str(lorem))],
+      [new Uint8Array(256), 'b90100' + '00'.repeat(256)],
+    ],
+    errValues: [1, 'dog', null, [1], [str('a'), [null]]],
+    errHex: [
+      '',
+      '8100',
+      '817f',
+      'b80100',
+      'b837' + '00'.repeat(55),
+      'b9003800',
+      'f800',
+      'c1',
+      'c28180' + '00',
+      'c4820400',
+      '83646f',
+      'bf' + 'ff'.repeat(8),
+    ],
+  });
+  it('error paths', () => {
+    throws(() => P.rlp.decode(hex.decode('c4c3c28100')), {
+      message: 'Reader(0/0/0): rlp: single byte below 0x80 should not be prefixed',
+    });
+    throws(() => P.rlp.encode([[P.EMPTY, 1 as any]]), {
+      message: 'Writer(0/1): rlp: expected bytes or array, got number',
+    });
+  });
+  it('nesting limit', () => {
+    // Headers are built from the innermost list outwards, then joined in reverse.
+    const nested = (n) => {
+      const headers = [Uint8Array.of(0xc0)];
+      for (let i = 0, len = 1; i < n; i++) {
+        const lenBytes = P.U32BE.encode(len).subarray(len < 256 ? 3 : len < 65536 ? 2 : 1);
+        const h =
+          len <= 55
+            ? Uint8Array.of(0xc0 + len)
+            : Uint8Array.of(0xf7 + lenBytes.length, ...lenBytes);
+        headers.push(h);
+        len += h.length;
+      }
+      return P.utils.concatBytes(...headers.reverse());
+    };
+    eql(P.rlp.decode(nested(2)), [[[]]]);
+    P.rlp.decode(nested(256));
+    for (const data of [nested(257), nested(100_000)]) {
+      throws(
+        () => P.rlp.decode(data),
+        (e) => e instanceof P.PackedError && e.code === 'MAX_DEPTH'
+      );
+    }
+  });
+  it('struct', () => {
+    const Tx = P.rlp.struct({
+      nonce: P.rlp.uint,
+      gasPrice: P.rlp.uint,
+      to: P.bytes(20),
+      value: P.rlp.uint,
+      data: P.bytes(null),
+      extra: P.rlp,
+      inner: P.rlp.struct({ a: P.U16BE, b: P.rlp.uint }),
+    });
+    const value = {
+      nonce: 0n,
+      gasPrice: 20000000000n,
+      to: hex.decode('3535353535353535353535353535353535353535'),
+      value: 10n ** 18n,
+      data: P.EMPTY,
+      extra: [Uint8Array.of(1), []],
+      inner: { a: 1, b: 127n },
+    };
+    const bytes = Tx.encode(value);
+    eql(
+      hex.encode(bytes),
+      'ee' +
+        '80' +
+        '8504a817c800' +
+        '943535353535353535353535353535353535353535' +
+        '880de0b6b3a7640000' +
+        '80' +
+        'c201c0' +
+        'c48200017f'
+    );
+    eql(Tx.decode(bytes), value);
+    eql(P.rlp.decode(bytes)[0], P.EMPTY);
+    // rlp.uint rejects leading zeros, the list must have exactly the defined items.
+    const Small = P.rlp.struct({ a: P.rlp.uint, b: P.bytes(1) });
+    eql(Small.decode(hex.decode('c20102')), { a: 1n, b: Uint8Array.of(2) });
+    throws(() => Small.decode(hex.decode('c3820001')), {
+      message: 'Reader(a): rlp.uint: leading zeros',
+    });
+    throws(() => Small.decode(hex.decode('c101')), {
+      message: 'Reader(b): rlp.struct: expected 2 items',
+    });
+    throws(() => Small.decode(hex.decode('c3010203')), {
+      message: 'Reader(): rlp.struct: expected 2 items, got more',
+    });
+    throws(() => Small.decode(hex.decode('c201c0')), {
+      message: 'Reader(b): rlp.struct: expected byte string',
+    });
+    throws(() => Small.decode(hex.decode('c3018203')), /Reader\(b\)/);
+    throws(() => Small.decode(hex.decode('0102')), {
+      message: 'Reader(): rlp.struct: expected list',
+    });
+    throws(() => Small.encode({ a: -1n, b: Uint8Array.of(1) }), /Writer\(a\)/);
+    throws(() => P.rlp.struct({ a: 1 } as any), TypeError);
+    throws(() => P.rlp.struct({ 'a/b': P.rlp }), TypeError);
+  });
+});
+
+describe('asn1', () => {
+  const A = P.asn1;
+  const dec = (t, h) => t.decode(hex.decode(h));
+  test('integer', {
+    p: A.integer,
+    correct: [
+      [0n, '020100'],
+      [127n, '02017f'],
+      [128n, '02020080'],
+      [256n, '02020100'],
+      [-128n, '020180'],
+      [-129n, '0202ff7f'],
+      [2n ** 64n, '0209010000000000000000'],
+    ],
+    errValues: [1, '1', null],
+    errHex: ['0200', '02020001', '0202ff80', '0281010a', '0201', '0201000000', '0301ff', '2201ff'],
+  });
+  test('primitives', {
+    p: A.sequence({
+      b: A.boolean,
+      n: A.null,
+      oid: A.oid,
+      bits: A.bitString,
+      octets: A.octetString,
+      utf8: A.utf8String,
+      printable: A.printableString,
+      ia5: A.ia5String,
+    }),
+    correct: [
+      [
+        {
+          b: true,
+          n: null,
+          oid: '1.2.840.113549.1.1.11',
+          bits: { unused: 6, data: Uint8Array.of(0x6e, 0x5d, 0xc0) },
+          octets: Uint8Array.of(1, 2),
+          utf8: 'привет',
+          printable: 'Test Co. (1)',
+          ia5: 'a@b.c',
+        },
+        '303d' +
+          '0101ff' +
+          '0500' +
+          '06092a864886f70d01010b' +
+          '0304066e5dc0' +
+          '04020102' +
+          '0c0cd0bfd180d0b8d0b2d0b5d182' +
+          '130c5465737420436f2e20283129' +
+          '1605614062' +
+          '2e63',
+      ],
+    ],
+  });
+  it('oid', () => {
+    for (const [oid, h] of [
+      ['2.999.3', '0603883703'],
+      ['0.0', '060100'],
+      [
+        '2.25.329800735698586629295641978511506172918',
+        '06146983f09da7ebcfdee0c7a1a7b2c0948cc8f9d776',
+      ],
+    ]) {
+      eql(hex.encode(A.oid.encode(oid)), h);
+      eql(dec(A.oid, h), oid);
+    }
+    for (const oid of ['1', '3.1', '1.40', '1.2.03', '1..2', 'a.b'])
+      throws(() => A.oid.encode(oid));
+    for (const h of ['0600', '06028001', '0603550481'].map(hex.decode))
+      throws(() => A.oid.decode(h));
+  });
+  it('time', () => {
+    const utc = new Date('1991-05-06T23:45:40Z');
+    eql(hex.encode(A.utcTime.encode(utc)), '170d3931303530363233343534305a');
+    eql(dec(A.utcTime, '170d3931303530363233343534305a'), utc);
+    eql(dec(A.utcTime, '170d3439313233313233353935395a'), new Date('2049-12-31T23:59:59Z'));
+    eql(dec(A.utcTime, '170d3530303130313030303030305a'), new Date('1950-01-01T00:00:00Z'));
+    const gen = new Date('1991-05-06T23:45:40.5Z');
+    eql(hex.encode(A.generalizedTime.encode(gen)), '181131393931303530363233343534302e355a');
+    eql(dec(A.generalizedTime, '181131393931303530363233343534302e355a'), gen);
+    throws(() => A.utcTime.encode(new Date('2050-01-01T00:00:00Z')));
+    throws(() => A.utcTime.encode(gen));
+    throws(() => A.utcTime.encode(new Date(NaN)));
+    // DER: seconds and Z are required, no trailing zeros in fractions, no impossible dates.
+    for (const h of [
+      '170b393130353036323334355a',
+      '17113931303530363233343534302d30373030',
+      '181231393931303530363233343534302e35305a',
+      '180f31393931303233303233343534305a',
+    ])
+      throws(() => A.generalizedTime.decode(hex.decode(h)));
+    // BER: missing seconds and time zone offsets.
+    eql(dec(A.ber.utcTime, '170b393130353036323334355a'), new Date('1991-05-06T23:45:00Z'));
+    eql(
+      dec(A.ber.utcTime, '17113931303530363233343534302d30373030'),
+      new Date('1991-05-07T06:45:40Z')
+    );
+    // Oversized content is rejected before it is turned into a string.
+    const long = P.utils.concatBytes(hex.decode('18830493e0'), new Uint8Array(300_000).fill(0x30));
+    for (const c of [A.generalizedTime, A.ber.generalizedTime])
+      throws(() => c.decode(long), { message: 'Reader(): asn1: GeneralizedTime is too long' });
+  });
+  it('tagging', () => {
+    eql(hex.encode(A.implicit(1, A.octetString).encode(Uint8Array.of(1))), '810101');
+    eql(hex.encode(A.explicit(1, A.octetString).encode(Uint8Array.of(1))), 'a103040101');
+    eql(hex.encode(A.implicit(0, A.sequenceOf(A.integer)).encode([1n])), 'a003020101');
+    eql(hex.encode(A.explicit(40, A.null, 'application').encode(null)), '7f28020500');
+    const tlv = { cls: 'private', constructed: false, tag: 300, data: Uint8Array.of(1, 2) };
+    eql(hex.encode(A.any.encode(tlv as any)), 'df822c020102');
+    eql(dec(A.any, 'df822c020102'), tlv);
+    throws(() => dec(A.implicit(1, A.octetString), '800101'), {
+      message: 'Reader(): asn1: expected [context 1], got [context 0]',
+    });
+    throws(() => dec(A.any, '1f1e00'), { message: 'Reader(): asn1: low tag number in long form' });
+    throws(() => dec(A.any, '1f808001'));
+    throws(() => A.implicit(1, A.choice({ a: A.integer })), TypeError);
+    throws(() => A.implicit(1, P.U8), TypeError);
+    throws(() => A.explicit(-1, A.integer), TypeError);
+  });
+  it('choice, optional, default', () => {
+    const S = A.sequence({
+      version: A.default(A.explicit(0, A.integer), 0n),
+      id: A.choice({ num: A.integer, name: A.utf8String }),
+      flag: A.default(A.boolean, false),
+      extra: A.optional(A.implicit(1, A.octetString)),
+    });
+    eql(
+      hex.encode(S.encode({ version: 0n, id: { TAG: 'num', data: 5n }, flag: false })),
+      '3003020105'
+    );
+    eql(dec(S, '3003020105'), {
+      version: 0n,
+      id: { TAG: 'num', data: 5n },
+      flag: false,
+      extra: undefined,
+    });
+    const full = {
+      version: 2n,
+      id: { TAG: 'name', data: 'x' },
+      flag: true,
+      extra: Uint8Array.of(7),
+    } as const;
+    eql(hex.encode(S.encode(full)), '300ea0030201020c01780101ff810107');
+    eql(dec(S, '300ea0030201020c01780101ff810107'), full);
+    throws(() => dec(S, '3006020105010100'), {
+      message: 'Reader(flag): asn1: DEFAULT value should be omitted',
+    });
+    eql(dec(A.ber.sequence({ a: A.ber.default(A.ber.boolean, false) }), '3003010100'), {
+      a: false,
+    });
+    throws(() => dec(S, '30030401ff'), {
+      message: 'Reader(id): asn1.choice: unexpected OCTET STRING',
+    });
+    throws(() => dec(S, '3006020105020105'), /Reader\(\): 3 bytes/);
+    throws(() => S.encode({ id: { TAG: 'x', data: 1n } } as any), /Writer\(id\)/);
+    throws(() => A.choice({ a: A.any }), TypeError);
+  });
+  it('der strictness', () => {
+    const Seq = A.sequenceOf(A.integer);
+    const Set = A.setOf(A.integer);
+    throws(() => dec(Seq, '30800201010201020000'), {
+      message: 'Reader(): asn1: indefinite length',
+    });
+    throws(() => dec(Seq, '308106020101020102'), { message: 'Reader(): asn1: non-minimal length' });
+    throws(() => dec(A.boolean, '010101'), { message: 'Reader(): asn1: non-canonical BOOLEAN' });
+    throws(() => dec(A.bitString, '03020701'), {
+      message: 'Reader(): asn1: non-zero BIT STRING padding',
+    });
+    throws(() => dec(A.bitString, '030108'));
+    throws(() => dec(A.null, '050100'));
+    throws(() => dec(Set, '3106020102020101'), {
+      message: 'Reader(): asn1: SET OF elements are not sorted',
+    });
+    eql(hex.encode(Set.encode([2n, 1n])), '3106020101020102');
+    throws(() => A.bitString.encode({ unused: 7, data: Uint8Array.of(1) }));
+    // BER accepts all of the above.
+    const B = A.ber;
+    eql(dec(B.sequenceOf(B.integer), '30800201010201020000'), [1n, 2n]);
+    eql(
+      dec(B.sequence({ a: B.sequenceOf(B.integer), b: B.integer }), '3080308002010100000201020000'),
+      {
+        a: [1n],
+        b: 2n,
+      }
+    );
+    eql(dec(B.integer, '0281010a'), 10n);
+    eql(dec(B.boolean, '010101'), true);
+    eql(dec(B.bitString, '03020701'), { unused: 7, data: Uint8Array.of(1) });
+    eql(dec(B.setOf(B.integer), '3106020102020101'), [2n, 1n]);
+    throws(() => dec(B.octetString, '0480010000'), {
+      message: 'Reader(): asn1: indefinite length for primitive element',
+    });
+    // Constructed strings are not supported, the error names the form.
+    throws(() => dec(B.octetString, '24800401010000'), {
+      message: 'Reader(): asn1: expected OCTET STRING, got OCTET STRING (constructed)',
+    });
+    throws(() => dec(A.implicit(1, A.sequence({})), '8100'), {
+      message: 'Reader(): asn1: expected [context 1] (constructed), got [context 1]',
+    });
+  });
+  it('ber nesting limit', () => {
+    const nested = (n) => hex.decode('3080'.repeat(n) + '0500' + '0000'.repeat(n));
+    eql(A.ber.any.decode(nested(1)), {
+      cls: 'universal',
+      constructed: true,
+      tag: 16,
+      data: hex.decode('0500'),
+    });
+    A.ber.any.decode(nested(256));
+    for (const data of [nested(257), nested(100_000)]) {
+      throws(
+        () => A.ber.any.decode(data),
+        (e) => e instanceof P.PackedError && e.code === 'MAX_DEPTH'
+      );
+    }
+  });
+  it('x509', () => {
+    // openssl req -x509 -newkey ec -pkeyopt ec_paramgen_curve:prime256v1 -subj "/CN=micro-packed/O=Test"
+    const der =
+      '308201a130820147a00302010202143fd815fa9d04c38e926f608981873455ac6e83fa300a06082a8648ce3d0403' +
+      '0230263115301306035504030c0c6d6963726f2d7061636b6564310d300b060355040a0c0454657374301e170d32' +
+      '36313031393131333231335a170d3336313031363131333231335a30263115301306035504030c0c6d6963726f2d' +
+      '7061636b6564310d300b060355040a0c04546573743059301306072a8648ce3d020106082a8648ce3d0301070342' +
+      '0004d69c6132132f41b0371a83020d1520402b81e0fdf877448319bfce6db1624ff37f9bf9eee6972555c3950ed4' +
+      '96f5c93712e412f75032d5b58275db1445f0c517a3533051301d0603551d0e04160414b17e8f2946f481b19071ec' +
+      '5fc93cb73d1f950fd7301f0603551d23041830168014b17e8f2946f481b19071ec5fc93cb73d1f950fd7300f0603' +
+      '551d130101ff040530030101ff300a06082a8648ce3d040302034800304502210090af0f29209c25a21776baaa1a' +
+      '0f6ff09110b1ef63b2ae89871994dd22b653c60220204f74e36d46b218b7c000a9aeb88984d820cb41b1f7ecba53' +
+      '2bc7e0520fe963';
+    const AlgId = A.sequence({ algorithm: A.oid, params: A.optional(A.any) });
+    const Attr = A.sequence({
+      type: A.oid,
+      value: A.choice({ utf8: A.utf8String, printable: A.printableString, ia5: A.ia5String }),
+    });
+    const Name = A.sequenceOf(A.setOf(Attr));
+    const Time = A.choice({ utc: A.utcTime, gen: A.generalizedTime });
+    const Extension = A.sequence({
+      id: A.oid,
+      critical: A.default(A.boolean, false),
+      value: A.octetString,
+    });
+    const TBS = A.sequence({
+      version: A.default(A.explicit(0, A.integer), 0n),
+      serial: A.integer,
+      signature: AlgId,
+      issuer: Name,
+      validity: A.sequence({ notBefore: Time, notAfter: Time }),
+      subject: Name,
+      spki: A.sequence({ algorithm: AlgId, publicKey: A.bitString }),
+      extensions: A.optional(A.explicit(3, A.sequenceOf(Extension))),
+    });
+    const Cert = A.sequence({ tbs: TBS, sigAlg: AlgId, signature: A.bitString });
+    const cert = Cert.decode(hex.decode(der));
+    eql(hex.encode(Cert.encode(cert)), der);
+    const { tbs } = cert;
+    eql(tbs.version, 2n);
+    eql(tbs.serial, 0x3fd815fa9d04c38e926f608981873455ac6e83fan);
+    eql(tbs.signature, { algorithm: '1.2.840.10045.4.3.2', params: undefined });
+    eql(tbs.issuer, [
+      [{ type: '2.5.4.3', value: { TAG: 'utf8', data: 'micro-packed' } }],
+      [{ type: '2.5.4.10', value: { TAG: 'utf8', data: 'Test' } }],
+    ]);
+    eql(tbs.validity.notAfter, { TAG: 'utc', data: new Date('2036-10-16T11:32:13Z') });
+    eql(tbs.spki.algorithm.params, {
+      cls: 'universal',
+      constructed: false,
+      tag: 6,
+      data: hex.decode('2a8648ce3d030107'),
+    });
+    eql(tbs.spki.publicKey.data.length, 65);
+    eql(
+      tbs.extensions!.map((e) => [e.id, e.critical]),
+      [
+        ['2.5.29.14', false],
+        ['2.5.29.35', false],
+        ['2.5.29.19', true],
+      ]
+    );
+    throws(
+      () => Cert.decode(hex.decode(der.replace('0c0c6d6963726f', '0c0cff6963726f'))),
+      /Reader\(tbs\/issuer\/0\/0\/value\/utf8\)/
+    );
+    throws(() => Cert.decode(hex.decode(der.replace('a003020102', 'a003010102'))), {
+      message: 'Reader(tbs/version): asn1: expected INTEGER, got BOOLEAN',
+    });
+  });
+});
+
+describe('stream', () => {
+  // Feeds data split into chunks of every size, collecting decoded values.
+  const chunked = (coder, data, opts = {}) => {
+    const res = [];
+    for (let size = 1; size <= data.length; size++) {
+      const s = P.stream(coder, opts);
+      const out = [];
+      for (let i = 0; i < data.length; i += size) out.push(...s.push(data.subarray(i, i + size)));
+      s.end();
+      eql(s.buffered, 0);
+      res.push(out);
+    }
+    for (const out of res) eql(out, res[0]);
+    return res[0];
+  };
+  it('basic', () => {
+    const Msg = P.struct({ id: P.U8, name: P.string(P.U16BE), flags: P.bits(8) });
+    const values = [
+      { id: 1, name: 'hello', flags: 3 },
+      { id: 2, name: '', flags: 0 },
+      { id: 3, name: 'world!', flags: 255 },
+    ];
+    const data = P.utils.concatBytes(...values.map((v) => Msg.encode(v)));
+    eql(chunked(Msg, data), values);
+    const s = P.stream(P.string(P.U16BE));
+    eql(s.push(Uint8Array.of(0, 2, 104)), []);
+    eql(s.buffered, 3);
+    eql(s.push(Uint8Array.of(105, 0, 0)), ['hi', '']);
+    eql(s.push(P.EMPTY), []);
+    s.end();
+    throws(() => s.push(Uint8Array.of(0)), { message: 'stream: push after end' });
+  });
+  it('formats', () => {
+    const A = P.asn1;
+    const cases = [
+      [P.cstring, ['', 'abc', 'de']],
+      [P.array(P.U16BE, P.U32LE), [[1, 2, 3], [], [4]]],
+      [P.cbor, [{ a: [1, 2, 'x'] }, new Uint8Array(300), -(10n ** 30n)]],
+      [P.msgpack, [{ a: [1, 2, 'x'] }, 'y'.repeat(40), null]],
+      [P.rlp, [[Uint8Array.of(1), [new Uint8Array(60)]], Uint8Array.of(0x7f)]],
+      [A.sequence({ a: A.integer, b: A.optional(A.utf8String) }), [{ a: 5n, b: 'x' }, { a: 300n }]],
+    ];
+    for (const [coder, values] of cases) {
+      const data = P.utils.concatBytes(...values.map((v) => coder.encode(v)));
+      eql(
+        chunked(coder, data),
+        values.map((v) => coder.decode(coder.encode(v)))
+      );
+    }
+    // BER indefinite length needs the end-of-contents bytes
+    const seq = A.ber.sequenceOf(A.ber.integer);
+    eql(chunked(seq, hex.decode('30800201010201020000' + '3000')), [[1n, 2n], []]);
+  });
+  it('waits for declared lengths', () => {
+    const s = P.stream(P.bytes(P.U32BE));
+    eql(s.push(Uint8Array.of(0, 0, 1, 0)), []);
+    eql(s.push(new Uint8Array(255)), []);
+    const [value] = s.push(Uint8Array.of(1, 0, 0, 0, 1));
+    eql(value.length, 256);
+    eql(s.buffered, 4);
+    // values keep pointing to their bytes while more input arrives
+    for (let i = 0; i < 10; i++) s.push(new Uint8Array(1000).fill(7));
+    eql(value[255], 1);
+    const arr = P.stream(P.array(P.U8, P.U32BE));
+    eql(arr.push(Uint8Array.of(255, 0)), []);
+    eql(arr.buffered, 2);
+  });
+  it('waits for terminators', () => {
+    let calls = 0;
+    const counted = P.wrap({
+      encodeStream: P.cstring.encodeStream,
+      decodeStream: (r) => (calls++, P.cstring.decodeStream(r)),
+    });
+    const s = P.stream(counted);
+    for (let i = 0; i < 1000; i++) eql(s.push(Uint8Array.of(97)), []);
+    eql(calls, 1);
+    eql(s.push(Uint8Array.of(98, 0, 99)), ['a'.repeat(1000) + 'b']);
+    eql(calls, 3);
+    eql(s.buffered, 1);
+    // Terminator split across chunks
+    const two = P.stream(P.struct({ b: P.bytes(Uint8Array.of(0xff, 0xfe)), n: P.U8 }));
+    eql(two.push(Uint8Array.of(1, 0xff)), []);
+    eql(two.push(Uint8Array.of(0xfe)), []);
+    eql(two.push(Uint8Array.of(2)), [{ b: Uint8Array.of(1), n: 2 }]);
+  });
+  it('malformed input', () => {
+    const s = P.stream(P.cbor);
+    eql(s.push(Uint8Array.of(0x82, 0x01)), []);
+    throws(() => s.push(Uint8Array.of(0xff)), { message: 'Reader(1): cbor: unexpected break' });
+    throws(() => s.push(Uint8Array.of(0x01)), /^Error: stream: failed earlier/);
+    throws(() => s.end(), /^Error: stream: failed earlier/);
+    const mp = P.stream(P.msgpack);
+    eql(mp.push(Uint8Array.of(0x01, 0x92)), [1]);
+    // array of 2 needs at least 2 more bytes before the next attempt
+    eql(mp.push(Uint8Array.of(0xc1)), []);
+    throws(() => mp.push(Uint8Array.of(0x01)), {
+      message: 'Reader(0): msgpack: unused format byte 0xc1',
+    });
+    const der = P.stream(P.asn1.integer);
+    eql(der.push(hex.decode('0202')), []);
+    throws(() => der.push(hex.decode('0001')), { message: 'Reader(): asn1: non-minimal INTEGER' });
+    const magic = P.stream(P.struct({ magic: P.magic(P.U16BE, 0xcafe), n: P.U8 }));
+    eql(magic.push(Uint8Array.of(0xca)), []);
+    throws(() => magic.push(Uint8Array.of(0xfd)), /Reader\(magic\)/);
+  });
+  it('end of input', () => {
+    const s = P.stream(P.string(P.U16BE));
+    eql(s.push(Uint8Array.of(0, 5, 97)), []);
+    throws(() => s.end(), {
+      message:
+        'stream: 3 bytes left at the end of input: Reader(): readBytes: Unexpected end of buffer',
+    });
+    throws(() => s.end(), /failed earlier/);
+  });
+  it('coder checks', () => {
+    throws(() => P.stream({}), TypeError);
+    throws(() => P.stream(P.U8, { allowUnreadBytes: 1 }), TypeError);
+    throws(() => P.stream(P.U8).push([1]), TypeError);
+    throws(() => P.stream(P.bits(4)).push(Uint8Array.of(1)), {
+      message: 'Reader(): stream: value ends inside a byte',
+    });
+    throws(() => P.stream(P.constant(1)).push(Uint8Array.of(1)), {
+      message: 'Reader(): stream: value decoded from zero bytes',
+    });
+  });
+  describe('adapters', () => {
+    const Frame = P.struct({ id: P.U8, body: P.string(P.U16BE) });
+    const frames = [
+      { id: 1, body: 'hello' },
+      { id: 2, body: '' },
+      { id: 3, body: 'x'.repeat(1000) },
+    ];
+    const data = P.utils.concatBytes(...frames.map((f) => Frame.encode(f)));
+    const split = (data, size) => {
+      const res = [];
+      for (let i = 0; i < data.length; i += size) res.push(data.subarray(i, i + size));
+      return res;
+    };
+    const collect = async (iter) => {
+      const res = [];
+      for await (const i of iter) res.push(i);
+      return res;
+    };
+    const readable = (chunks) =>
+      new ReadableStream({
+        start(ctrl) {
+          for (const c of chunks) ctrl.enqueue(c);
+          ctrl.close();
+        },
+      });
+    it('decoderStream', async () => {
+      for (const size of [1, 3, 7, data.length])
+        eql(await collect(readable(split(data, size)).pipeThrough(P.decoderStream(Frame))), frames);
+      await rejects(
+        collect(readable([data.subarray(0, 5)]).pipeThrough(P.decoderStream(Frame))),
+        /stream: 5 bytes left at the end of input/
+      );
+      await rejects(
+        collect(readable([Uint8Array.of(0x82, 0xff, 0x01)]).pipeThrough(P.decoderStream(P.cbor))),
+        { message: 'Reader(0): cbor: unexpected break' }
+      );
+      throws(() => P.decoderStream({}), TypeError);
+    });
+    it('encoderStream', async () => {
+      const enc = readable(frames).pipeThrough(P.encoderStream(Frame));
+      const chunks = await collect(enc);
+      eql(chunks.length, 3);
+      eql(P.utils.concatBytes(...chunks), data);
+      const roundtrip = readable(frames)
+        .pipeThrough(P.encoderStream(Frame))
+        .pipeThrough(P.decoderStream(Frame));
+      eql(await collect(roundtrip), frames);
+      await rejects(
+        collect(readable([{ id: 256, body: '' }]).pipeThrough(P.encoderStream(Frame))),
+        /Writer\(id\)/
+      );
+      throws(() => P.encoderStream(P.U8.encode), TypeError);
+    });
+    it('decodeAll', async () => {
+      async function* source(size) {
+        for (const c of split(data, size)) yield c;
+      }
+      eql(await collect(P.decodeAll(Frame, source(4))), frames);
+      eql(await collect(P.decodeAll(Frame, split(data, 2))), frames);
+      eql(await collect(P.decodeAll(Frame, [])), []);
+      // chunks are pulled lazily: consumer controls the pace
+      let pulled = 0;
+      async function* counted() {
+        for (const c of split(data, 1)) {
+          pulled++;
+          yield c;
+        }
+      }
+      const it = P.decodeAll(Frame, counted());
+      eql((await it.next()).value, frames[0]);
+      eql(pulled, Frame.encode(frames[0]).length);
+      await it.return();
+      await rejects(collect(P.decodeAll(Frame, [data.subarray(0, 5)])), /5 bytes left/);
+      await rejects(collect(P.decodeAll(Frame, ['abc'])), TypeError);
+      throws(() => P.decodeAll(Frame, 'abc'), TypeError);
+      throws(() => P.decodeAll(Frame, 5), TypeError);
+      throws(() => P.decodeAll({}, []), TypeError);
+    });
+  });
+});
+
+describe('encodeInto', () => {
+  const Rec = P.struct({ id: P.U32LE, name: P.string(P.U8), tags: P.array(P.U8, P.cstring) });
+  const recs = Array.from({ length: 100 }, (_, i) => ({
+    id: i,
+    name: 'x'.repeat(i % 7),
+    tags: i % 3 ? ['a', 'bc'] : [],
+  }));
+  it('arena', () => {
+    const total = recs.reduce((sum, r) => sum + Rec.encodedLength(r), 0);
+    const arena = new Uint8Array(total);
+    let pos = 0;
+    for (const r of recs) pos += Rec.encodeInto(r, arena, pos);
+    eql(pos, total);
+    eql(arena, P.utils.concatBytes(...recs.map((r) => Rec.encode(r))));
+    eql(P.stream(Rec).push(arena), recs);
+  });
+  it('length', () => {
+    for (const [coder, value] of [
+      [P.U64BE, 1n],
+      [P.bits(8), 5],
+      [P.array(null, P.U16LE), [1, 2, 3]],
+      [P.cbor, { a: [1, 'x', new Uint8Array(300)] }],
+      [P.msgpack, { a: [1, 'x', new Uint8Array(300)] }],
+      [P.rlp, [Uint8Array.of(1), [new Uint8Array(100)]]],
+      [P.asn1.sequence({ a: P.asn1.integer, b: P.asn1.utf8String }), { a: 1n << 100n, b: 'x' }],
+    ])
+      eql(coder.encodedLength(value), coder.encode(value).length);
+    // sized pointer reports only the slot, payload is still counted
+    const Ptr = P.struct({ a: P.pointer(P.U8, P.U32BE, true), b: P.U8 });
+    eql(Ptr.size, 2);
+    eql(Ptr.encodedLength({ a: 1, b: 2 }), 6);
+    eql(P.tuple([P.U8, Ptr]).encodedLength([0, { a: 1, b: 2 }]), 7);
+    // Fixed-size coders without pointers return size, without encoding or validating
+    eql(P.U8.encodedLength(300), 1);
+    eql(P.struct({ a: P.U16BE, b: P.bytes(3) }).encodedLength({} as any), 5);
+    const buf = new Uint8Array(8);
+    eql(Ptr.encodeInto({ a: 1, b: 2 }, buf, 2), 6);
+    eql(hex.encode(buf), '0000020200000001');
+    eql(Ptr.decode(buf.subarray(2)), { a: 1, b: 2 });
+  });
+  it('errors', () => {
+    const buf = new Uint8Array(4).fill(1);
+    throws(() => P.U32LE.encodeInto(5, buf, 1), {
+      name: 'RangeError',
+      message: 'encodeInto: 4 bytes do not fit into 3 bytes at offset=1',
+    });
+    eql(buf, new Uint8Array(4).fill(1));
+    for (const offset of [-1, 1.5, 5, '1'])
+      throws(() => P.U8.encodeInto(1, buf, offset), RangeError);
+    throws(() => P.U8.encodeInto(1, [0], 0), TypeError);
+    eql(P.U8.encodeInto(7, buf, 3), 1);
+    eql(P.EMPTY.length, P.bytes(0).encodeInto(P.EMPTY, buf, 4));
+    throws(() => Rec.encodedLength({ id: 1, name: 'a', tags: [1] }), /Writer\(tags\/0\)/);
+    throws(() => P.bits(4).encodedLength(1), {
+      message: 'Writer(): buffer: ends with non-empty bit buffer',
+    });
+  });
+});
+
+describe('decodePrefix', () => {
+  it('walks concatenated records', () => {
+    const Header = P.struct({ kind: P.U8, count: P.U16LE });
+    const Item = P.struct({ id: P.U32LE, name: P.cstring });
+    const items = [
+      { id: 1, name: 'a' },
+      { id: 2, name: 'bcd' },
+    ];
+    const data = P.utils.concatBytes(
+      Header.encode({ kind: 7, count: items.length }),
+      ...items.map((i) => Item.encode(i)),
+      P.cbor.encode({ done: true })
+    );
+    let pos = 0;
+    const header = Header.decodePrefix(data, pos);
+    eql(header, { value: { kind: 7, count: 2 }, bytesRead: 3 });
+    pos += header.bytesRead;
+    const res = [];
+    for (let i = 0; i < header.value.count; i++) {
+      const { value, bytesRead } = Item.decodePrefix(data, pos);
+      res.push(value);
+      pos += bytesRead;
+    }
+    eql(res, items);
+    eql(P.cbor.decodePrefix(data, pos), { value: { done: true }, bytesRead: data.length - pos });
+    eql(P.U8.decodePrefix(Uint8Array.of(1, 2, 3)), { value: 1, bytesRead: 1 });
+    eql(P.bytes(null).decodePrefix(Uint8Array.of(1, 2, 3), 3), { value: P.EMPTY, bytesRead: 0 });
+  });
+  it('pointers', () => {
+    const Ptr = P.struct({ a: P.pointer(P.U8, P.U8), b: P.U8 });
+    const data = Uint8Array.of(0xff, 2, 3, 4, 0xff);
+    // pointed data after the fixed part is included in bytesRead
+    eql(Ptr.decodePrefix(data, 1), { value: { a: 4, b: 3 }, bytesRead: 3 });
+    const values = [
+      { a: 1, b: 2 },
+      { a: 3, b: 4 },
+    ];
+    eql(P.stream(Ptr).push(P.utils.concatBytes(...values.map((v) => Ptr.encode(v)))), values);
+  });
+  it('errors', () => {
+    const data = Uint8Array.of(1, 2);
+    throws(() => P.U32LE.decodePrefix(data), {
+      message: 'Reader(): readView: Unexpected end of buffer',
+    });
+    for (const offset of [-1, 3, 0.5, '1'])
+      throws(() => P.U8.decodePrefix(data, offset), RangeError);
+    throws(() => P.U8.decodePrefix([1]), TypeError);
+    throws(() => P.U8.decodePrefix(data, 0, { allowMultipleReads: 1 }), TypeError);
+    throws(() => P.bits(4).decodePrefix(data), {
+      message: 'Reader(): decodePrefix: value ends inside a byte',
+    });
+  });
+});
+
+describe('compile', () => {
+  const Fixed = P.struct({
+    a: P.U8,
+    b: P.I16LE,
+    c: P.U32BE,
+    d: P.I64LE,
+    e: P.U64BE,
+    f: P.F32BE,
+    g: P.F64LE,
+    h: P.bytes(3, true),
+    i: P.array(2, P.tuple([P.U16BE, P.bytes(2)])),
+    j: P.struct({ x: P.I8 }),
+  });
+  const value = {
+    a: 255,
+    b: -32768,
+    c: 2 ** 32 - 1,
+    d: -(2n ** 63n),
+    e: 2n ** 64n - 1n,
+    f: 1.5,
+    g: -0,
+    h: Uint8Array.of(1, 2, 3),
+    i: [
+      [1, Uint8Array.of(4, 5)],
+      [65535, Uint8Array.of(6, 7)],
+    ],
+    j: { x: -1 },
+  };
+  // Result or error message, for comparing compiled and interpreted coders
+  const outcome = (fn) => {
+    try {
+      return fn();
+    } catch (e) {
+      return `${e.name}: ${e.message}`;
+    }
+  };
+  for (const codegen of [true, false]) {
+    describe(`codegen=${codegen}`, () => {
+      const C = P.compile(Fixed, { codegen });
+      it('same bytes and values', () => {
+        const encoded = Fixed.encode(value);
+        eql(Object.isFrozen(C), true);
+        eql(C.size, Fixed.size);
+        eql(C.encode(value), encoded);
+        eql(C.decode(encoded), Fixed.decode(encoded));
+        eql(Object.is(C.decode(encoded).g, -0), true);
+        eql(C.encodedLength(value), encoded.length);
+        const target = new Uint8Array(encoded.length + 2).fill(0xaa);
+        eql(C.encodeInto(value, target, 1), encoded.length);
+        eql(target, Uint8Array.from([0xaa, ...encoded, 0xaa]));
+        eql(C.decodePrefix(target, 1), { value: Fixed.decode(encoded), bytesRead: encoded.length });
+        eql(C.decode(target.subarray(1), { allowUnreadBytes: true }), Fixed.decode(encoded));
+        // NaN goes through the original coder (canonical NaN check)
+        const nan = { ...value, f: NaN, g: NaN };
+        eql(C.encode(nan), Fixed.encode(nan));
+        eql(C.decode(Fixed.encode(nan)), Fixed.decode(Fixed.encode(nan)));
+        // arrays and scalars on their own
+        const Arr = P.compile(P.array(3, P.U16LE), { codegen });
+        eql(Arr.decode(Arr.encode([1, 2, 3])), [1, 2, 3]);
+        eql(P.compile(P.U32BE, { codegen }).encode(1), Uint8Array.of(0, 0, 0, 1));
+        // compiled coders nest into compiled and interpreted layouts
+        const Outer = P.compile(P.tuple([C, P.U8]), { codegen });
+        eql(Outer.decode(Outer.encode([value, 5])), [Fixed.decode(encoded), 5]);
+        const Dyn = P.struct({ items: P.array(P.U8, C) });
+        eql(Dyn.decode(Dyn.encode({ items: [value] })), { items: [Fixed.decode(encoded)] });
+      });
+      it('same errors', () => {
+        const bad = [
+          { ...value, a: 256 },
+          { ...value, b: 1.5 },
+          { ...value, d: 1 },
+          { ...value, e: -1n },
+          { ...value, f: 0.1 },
+          { ...value, g: '1' },
+          { ...value, h: [1, 2, 3] },
+          { ...value, i: [[1, Uint8Array.of(4)], value.i[1]] },
+          { ...value, i: [value.i[0]] },
+          { ...value, j: { x: 128 } },
+          { ...value, j: null },
+          undefined,
+        ];
+        for (const v of bad) {
+          eql(
+            outcome(() => C.encode(v)),
+            outcome(() => Fixed.encode(v))
+          );
+          eql(
+            outcome(() => C.encodedLength(v)),
+            outcome(() => Fixed.encodedLength(v))
+          );
+          const target = new Uint8Array(64);
+          eql(
+            outcome(() => C.encodeInto(v, target)),
+            outcome(() => Fixed.encodeInto(v, target))
+          );
+          eql(target, new Uint8Array(64));
+        }
+        const encoded = Fixed.encode(value);
+        const nonCanonical = encoded.slice();
+        nonCanonical[15] = 0xff;
+        nonCanonical[16] = 0xff;
+        for (const [data, opts] of [
+          [encoded.subarray(1)],
+          [P.utils.concatBytes(encoded, Uint8Array.of(0))],
+          [nonCanonical],
+          [encoded, { allowMultipleReads: 1 }],
+          [[...encoded]],
+        ]) {
+          eql(
+            outcome(() => C.decode(data, opts)),
+            outcome(() => Fixed.decode(data, opts))
+          );
+          eql(
+            outcome(() => C.decodePrefix(data, 0, opts)),
+            outcome(() => Fixed.decodePrefix(data, 0, opts))
+          );
+        }
+        eql(
+          outcome(() => C.encodeInto(value, new Uint8Array(8))),
+          outcome(() => Fixed.encodeInto(value, new Uint8Array(8)))
+        );
+        eql(
+          outcome(() => C.decodePrefix(encoded, -1)),
+          outcome(() => Fixed.decodePrefix(encoded, -1))
+        );
+      });
+    });
+  }
+  it('unsupported coders', () => {
+    throws(() => P.compile(P.struct({ a: P.U8, b: P.struct({ c: P.string(P.U8) }) })), {
+      name: 'TypeError',
+      message: 'compile: b/c is not a fixed-layout coder',
+    });
+    throws(() => P.compile(P.array(P.U8, P.U8)), TypeError);
+    throws(() => P.compile(P.tuple([P.bool])), {
+      message: 'compile: 0 is not a fixed-layout coder',
+    });
+    throws(() => P.compile(P.array(2, P.U128LE)), {
+      message: 'compile: * is not a fixed-layout coder',
+    });
+    throws(() => P.compile({}), TypeError);
+    throws(() => P.compile(P.U8, { codegen: 1 }), TypeError);
+  });
+});
+
+describe('view', () => {
+  const Rec = P.struct({
+    id: P.U32LE,
+    flag: P.bool,
+    pos: P.tuple([P.F32LE, P.I8]),
+    hash: P.bytes(4),
+    items: P.array(3, P.struct({ a: P.U16BE })),
+  });
+  const value = {
+    id: 7,
+    flag: true,
+    pos: [1.5, -2],
+    hash: Uint8Array.of(1, 2, 3, 4),
+    items: [{ a: 1 }, { a: 2 }, { a: 3 }],
+  };
+  it('reads fields lazily', () => {
+    const data = P.utils.concatBytes(Uint8Array.of(0xff), Rec.encode(value));
+    const v = P.view(Rec)(data, 1);
+    eql(v.id, 7);
+    eql(v.flag, true);
+    eql([v.pos.length, v.pos.get(0), v.pos.get(1)], [2, 1.5, -2]);
+    eql(
+      [...v.items].map((i) => i.a),
+      [1, 2, 3]
+    );
+    eql(v.items.get(2).a, 3);
+    // bytes share memory with the input
+    eql(v.hash, Uint8Array.of(1, 2, 3, 4));
+    data[11] = 9;
+    eql(v.hash, Uint8Array.of(9, 2, 3, 4));
+    // only the accessed field is decoded: corruption elsewhere does not matter
+    data[5] = 2; // flag
+    eql(v.id, 7);
+    throws(() => v.flag, { message: 'Reader(): bool: invalid value 2' });
+    throws(() => v.items.get(3), {
+      name: 'RangeError',
+      message: 'view(items): index 3 out of bounds, length=3',
+    });
+    throws(() => v.items.get(-1), RangeError);
+    const arr = P.view(P.array(2, P.U64BE))(new Uint8Array(16).fill(1));
+    eql([...arr], [0x0101010101010101n, 0x0101010101010101n]);
+    // compiled coders keep their layout
+    const Items = P.struct({ items: P.array(3, P.struct({ a: P.U16BE })) });
+    eql(P.view(P.compile(Items))(Items.encode({ items: value.items })).items.get(1).a, 2);
+  });
+  it('writable', () => {
+    const data = Rec.encode(value);
+    const v = P.view(Rec, { writable: true })(data);
+    v.id = 9;
+    v.items.get(1).a = 500;
+    v.pos.set(1, 5);
+    v.items.set(0, { a: 11 });
+    v.hash = Uint8Array.of(5, 6, 7, 8);
+    eql(Rec.decode(data), {
+      ...value,
+      id: 9,
+      pos: [1.5, 5],
+      hash: Uint8Array.of(5, 6, 7, 8),
+      items: [{ a: 11 }, { a: 500 }, { a: 3 }],
+    });
+    const copy = data.slice();
+    throws(() => (v.id = -1), {
+      message: 'Writer(): uintView: value out of bounds. Expected 0 <= -1 < 4294967296',
+    });
+    throws(() => (v.hash = Uint8Array.of(1)));
+    eql(data, copy);
+    const ro = P.view(Rec)(data);
+    throws(() => (ro.id = 1), TypeError);
+    throws(() => ro.pos.set(0, 1), {
+      name: 'TypeError',
+      message: 'view(pos): read-only, use view(coder, { writable: true })',
+    });
+  });
+  it('errors', () => {
+    throws(() => P.view(P.struct({ a: P.U8, s: P.cstring })), {
+      name: 'TypeError',
+      message: 'view: coder has no fixed size',
+    });
+    throws(() => P.view(P.array(P.U8, P.U8)), TypeError);
+    throws(() => P.view(P.U32LE), {
+      name: 'TypeError',
+      message: 'view: expected struct, tuple or fixed-length array',
+    });
+    throws(() => P.view(P.bytes(4)), TypeError);
+    throws(() => P.view(Rec, { writable: 1 }), TypeError);
+    const v = P.view(Rec);
+    throws(() => v(new Uint8Array(Rec.size - 1)), {
+      name: 'RangeError',
+      message: `view: ${Rec.size} bytes do not fit into ${Rec.size - 1} bytes at offset=0`,
+    });
+    throws(() => v(Rec.encode(value), 1), RangeError);
+    throws(() => v(Rec.encode(value), -1), RangeError);
+    throws(() => v([...Rec.encode(value)]), TypeError);
+  });
+});
+
+describe('describe', () => {
+  const u8 = {
+    kind: 'int',
+    bytes: 1,
+    le: false,
+    signed: false,
+    sized: true,
+    bigint: false,
+    size: 1,
+  };
+  it('primitives', () => {
+    eql(P.describe(P.U8), u8);
+    eql(P.describe(P.I16LE), { ...u8, bytes: 2, le: true, signed: true, size: 2 });
+    eql(P.describe(P.U64BE), { ...u8, bytes: 8, bigint: true, size: 8 });
+    eql(P.describe(P.int(3, true, false, false)), {
+      ...u8,
+      bytes: 3,
+      le: true,
+      sized: false,
+      size: undefined,
+    });
+    eql(P.describe(P.F64LE), { kind: 'float', bytes: 8, le: true, size: 8 });
+    eql(P.describe(P.bool), { kind: 'bool', size: 1 });
+    eql(P.describe(P.bits(3)), { kind: 'bits', bits: 3, size: undefined });
+    eql(P.describe(P.sleb128big), {
+      kind: 'varint',
+      format: 'sleb128',
+      bigint: true,
+      size: undefined,
+    });
+    eql(P.describe(P.compactSize), {
+      kind: 'varint',
+      format: 'compactSize',
+      bigint: false,
+      size: undefined,
+    });
+  });
+  it('length modes', () => {
+    const len = (c: P.CoderType<any>) => (P.describe(c) as any).length;
+    eql(len(P.bytes(4)), { kind: 'fixed', len: 4 });
+    eql(len(P.bytes(null)), { kind: 'eof' });
+    eql(len(P.cstring), { kind: 'terminator', terminator: Uint8Array.of(0) });
+    eql(len(P.string(P.U8)), { kind: 'prefix', coder: u8 });
+    // path is reported as written by the user, without the internal '../'
+    eql(len(P.array('n', P.U8)), { kind: 'path', path: 'n' });
+    eql(len(P.hex(P.U8, { isLE: true })), { kind: 'prefix', coder: u8 });
+    eql(len(P.typedArray(null, 'u32le')), { kind: 'eof' });
+  });
+  it('structures', () => {
+    const s = P.struct({
+      n: P.U8,
+      list: P.array('n', P.tuple([P.U8, P.bool])),
+      body: P.tag(P.U8, { 1: P.U8, 2: P.bool }),
+      kind: P.map(P.U8, { a: 1, b: 2 }),
+    });
+    eql(P.describe(s), {
+      kind: 'struct',
+      size: undefined,
+      fields: [
+        { name: 'n', type: u8 },
+        {
+          name: 'list',
+          type: {
+            kind: 'array',
+            size: undefined,
+            length: { kind: 'path', path: 'n' },
+            inner: { kind: 'tuple', size: 2, fields: [u8, { kind: 'bool', size: 1 }] },
+          },
+        },
+        {
+          name: 'body',
+          type: {
+            kind: 'tag',
+            size: 2,
+            tag: u8,
+            variants: [
+              { tag: '1', type: u8 },
+              { tag: '2', type: { kind: 'bool', size: 1 } },
+            ],
+          },
+        },
+        { name: 'kind', type: { kind: 'map', size: 1, inner: u8, variants: { a: 1, b: 2 } } },
+      ],
+    });
+    eql(P.describe(P.mappedTag(P.U8, { x: [5, P.U8] })), {
+      kind: 'mappedTag',
+      size: 2,
+      tag: u8,
+      variants: [{ name: 'x', tag: 5, type: u8 }],
+    });
+    eql(P.describe(P.optional(P.bool, P.U8, 0)), {
+      kind: 'optional',
+      size: 2,
+      flag: { kind: 'bool', size: 1 },
+      inner: u8,
+      default: 0,
+    });
+  });
+  it('formats', () => {
+    eql(P.describe(P.cbor.deterministic), { kind: 'cbor', deterministic: true, size: undefined });
+    eql(P.describe(P.msgpack.ext({ 1: P.U8 })), {
+      kind: 'msgpack',
+      ext: { 1: u8 },
+      size: undefined,
+    });
+    eql(P.describe(P.rlp.struct({ v: P.rlp.uint })), {
+      kind: 'rlpStruct',
+      size: undefined,
+      fields: [{ name: 'v', type: { kind: 'rlpUint', size: undefined } }],
+    });
+    const pb = P.protobuf;
+    eql((P.describe(pb.message({ x: [2, pb.repeated(pb.sint32)] })) as any).fields, [
+      {
+        name: 'x',
+        field: 2,
+        wire: 0,
+        repeated: true,
+        packed: false,
+        type: { kind: 'protobufVarint', type: 'sint32', size: undefined },
+      },
+    ]);
+    const a = P.describe(P.asn1.implicit(1, P.asn1.integer)) as any;
+    eql(
+      [a.kind, a.name, a.cls, a.tag, a.constructed, a.der],
+      ['asn1', '[context 1]', 'context', 1, false, true]
+    );
+    eql(P.describe(P.asn1.ber.any), { kind: 'asn1Any', der: false, size: undefined });
+  });
+  it('custom, wrappers and compile', () => {
+    const custom = P.wrap({
+      size: 1,
+      encodeStream: (w, v: number) => w.byte(v),
+      decodeStream: (r) => r.byte(),
+      validate: (v) => v,
+    });
+    eql(P.describe(custom), { kind: 'custom', size: 1 });
+    eql(P.describe({ ...P.U8 }), { kind: 'custom', size: 1 });
+    eql(P.describe(P.validate(P.U8, (v) => v)), { kind: 'validate', inner: u8, size: 1 });
+    eql(P.describe(P.apply(P.U8, P.coders.numberBigint as any)), {
+      kind: 'apply',
+      inner: u8,
+      size: 1,
+    });
+    const s = P.struct({ a: P.U8, b: P.array(2, P.U16LE) });
+    eql(P.describe(P.compile(s)), P.describe(s));
+  });
+  it('lazy', () => {
+    type Tree = { v: number; children: Tree[] };
+    const tree: P.CoderType<Tree> = P.struct({
+      v: P.U8,
+      children: P.array(
+        P.U8,
+        P.lazy(() => tree)
+      ),
+    });
+    const d = P.describe(tree) as any;
+    const inner = d.fields[1].type.inner;
+    eql(inner.kind, 'lazy');
+    eql(inner.inner === d, true);
+  });
+  it('read-only', () => {
+    const d = P.describe(P.struct({ a: P.U8 })) as any;
+    eql(Object.isFrozen(d), true);
+    eql(Object.isFrozen(d.fields), true);
+    eql(Object.isFrozen(d.fields[0]), true);
+    throws(() => {
+      d.kind = 'x';
+    }, TypeError);
+    eql(P.describe(P.U8) === P.describe(P.U8), true);
+    throws(() => P.describe({} as any), {
+      name: 'TypeError',
+      message: 'describe: invalid coder [object Object]',
+    });
+  });
+});
+
+describe('jsonSchema', () => {
+  const $schema = 'https://json-schema.org/draft/2020-12/schema';
+  const u8 = { type: 'integer', minimum: 0, maximum: 255 };
+  const uint = { type: 'string', pattern: '^(0|[1-9][0-9]*)$' };
+  it('struct', () => {
+    const s = P.struct({
+      id: P.U64LE,
+      n: P.I16BE,
+      kind: P.map(P.U8, { ping: 1, pong: 2 }),
+      hash: P.bytes(4),
+      extra: P.flagged('n', P.U8),
+      maybe: P.optional(P.bool, P.string(P.U8)),
+      version: P.magic(P.U8, 1),
+      flags: P.bitset(['a', 'b'], true),
+      point: P.tuple([P.F32LE, P.hex(2, { with0x: true })]),
+      list: P.array(3, P.int(3, false, true)),
+    });
+    eql(P.jsonSchema(s), {
+      $schema,
+      type: 'object',
+      properties: {
+        id: uint,
+        n: { type: 'integer', minimum: -32768, maximum: 32767 },
+        kind: { enum: ['ping', 'pong'] },
+        hash: { type: 'string', contentEncoding: 'base16', pattern: '^[0-9a-fA-F]{8}$' },
+        extra: u8,
+        maybe: { type: 'string' },
+        flags: {
+          type: 'object',
+          properties: { a: { type: 'boolean' }, b: { type: 'boolean' } },
+          required: ['a', 'b'],
+          additionalProperties: false,
+        },
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'string', pattern: '^0x[0-9a-fA-F]{4}$' }],
+          items: false,
+          minItems: 2,
+          maxItems: 2,
+        },
+        list: {
+          type: 'array',
+          items: { type: 'integer', minimum: -8388608, maximum: 8388607 },
+          minItems: 3,
+          maxItems: 3,
+        },
+      },
+      required: ['id', 'n', 'kind', 'hash', 'flags', 'point', 'list'],
+      additionalProperties: false,
+    });
+  });
+  it('tag', () => {
+    const variant = (TAG: unknown, data: unknown) => ({
+      type: 'object',
+      properties: { TAG: { const: TAG }, data },
+      required: ['TAG', 'data'],
+      additionalProperties: false,
+    });
+    eql(P.jsonSchema(P.tag(P.U8, { 1: P.U8, 2: P.I64BE })), {
+      $schema,
+      oneOf: [variant(1, u8), variant(2, { type: 'string', pattern: '^(0|-?[1-9][0-9]*)$' })],
+    });
+    eql(P.jsonSchema(P.tag(P.string(null), { a: P.bool })), {
+      $schema,
+      oneOf: [variant('a', { type: 'boolean' })],
+    });
+    eql(P.jsonSchema(P.mappedTag(P.U8, { x: [5, P.U8] })), { $schema, oneOf: [variant('x', u8)] });
+  });
+  it('bytes', () => {
+    eql(P.jsonSchema(P.bytes(null)), {
+      $schema,
+      type: 'string',
+      contentEncoding: 'base16',
+      pattern: '^([0-9a-fA-F]{2})*$',
+    });
+    eql(P.jsonSchema(P.bytes(5), { bytes: 'base64' }), {
+      $schema,
+      type: 'string',
+      contentEncoding: 'base64',
+      minLength: 8,
+      maxLength: 8,
+    });
+    eql(P.jsonSchema(P.constant(Uint8Array.of(1, 2)), { bytes: 'hex' }), {
+      $schema,
+      const: '0102',
+    });
+    eql(P.jsonSchema(P.typedArray(P.U8, 'u64be')), { $schema, type: 'array', items: uint });
+  });
+  it('recursive', () => {
+    type Tree = { v: number; c: Tree[] };
+    const tree: P.CoderType<Tree> = P.struct({
+      v: P.U8,
+      c: P.array(
+        P.U8,
+        P.lazy(() => tree)
+      ),
+    });
+    const treeSchema = (ref: string) => ({
+      type: 'object',
+      properties: { v: u8, c: { type: 'array', items: { $ref: ref } } },
+      required: ['v', 'c'],
+      additionalProperties: false,
+    });
+    eql(P.jsonSchema(tree), { $schema, ...treeSchema('#') });
+    eql(P.jsonSchema(P.tuple([P.lazy(() => tree)])), {
+      $schema,
+      type: 'array',
+      prefixItems: [{ $ref: '#/$defs/def0' }],
+      items: false,
+      minItems: 1,
+      maxItems: 1,
+      $defs: { def0: treeSchema('#/$defs/def0') },
+    });
+    // lazy() that builds a new struct on every call
+    const node: P.CoderType<Tree> = P.lazy(() => P.struct({ v: P.U8, c: P.array(P.U8, node) }));
+    eql(P.jsonSchema(node), {
+      $schema,
+      $ref: '#/$defs/def0',
+      $defs: { def0: treeSchema('#/$defs/def0') },
+    });
+    const rlp = P.jsonSchema(P.rlp) as any;
+    eql(rlp.$ref, '#/$defs/RlpValue');
+    eql(rlp.$defs.RlpValue.anyOf[1], { type: 'array', items: { $ref: '#/$defs/RlpValue' } });
+  });
+  it('formats', () => {
+    const pb = P.protobuf;
+    const msg = P.jsonSchema(
+      pb.message({ a: [1, pb.uint64], b: [2, pb.packed(pb.sint32)] })
+    ) as any;
+    eql(msg.properties.a, uint);
+    eql(msg.properties.b, {
+      type: 'array',
+      items: { type: 'integer', minimum: -2147483648, maximum: 2147483647 },
+    });
+    eql(msg.required, undefined);
+    const A = P.asn1;
+    const seq = P.jsonSchema(A.sequence({ v: A.optional(A.integer), t: A.utcTime })) as any;
+    eql(seq.properties, {
+      v: { type: 'string', pattern: '^(0|-?[1-9][0-9]*)$' },
+      t: { type: 'string', format: 'date-time' },
+    });
+    eql(seq.required, ['t']);
+    eql(P.jsonSchema(P.cbor), { $schema });
+    eql(P.jsonSchema(P.apply(P.U8, P.coders.numberBigint as any)), { $schema });
+  });
+  it('errors', () => {
+    throws(() => P.jsonSchema({} as any), TypeError);
+    throws(() => P.jsonSchema(P.U8, { bytes: 'base58' as any }), {
+      name: 'TypeError',
+      message: "jsonSchema/bytes: expected 'hex' or 'base64', got base58",
+    });
+  });
+});
+
+describe('parseSchema', () => {
+  it('same coders as hand-written', () => {
+    const { Header, Item } = P.parseSchema(`
+      // Structs can be used before their declaration
+      struct Header {
+        magic: bytes[4] = "PK\\x03\\x04";
+        version: u16le;
+        flags: bitset<8>{a, b, c};
+        name: string<u16le>;
+        count: u8;
+        items: Item[count];
+        rest: bytes[];
+      };
+      struct Item {
+        id: u64be; /* bigint */
+        tags: cstring[2];
+        grid: i8[2][3];
+        kind: u8 = 0x10;
+        bits: bitset{x, y, z, w, a, b, c, d};
+        data: hex<"\\0">;
+      }
+    `);
+    const item = P.struct({
+      id: P.U64BE,
+      tags: P.array(2, P.cstring),
+      grid: P.array(2, P.array(3, P.I8)),
+      kind: P.magic(P.U8, 0x10),
+      bits: P.bitset(['x', 'y', 'z', 'w', 'a', 'b', 'c', 'd']),
+      data: P.hex(Uint8Array.of(0)),
+    });
+    const header = P.struct({
+      magic: P.magicBytes(Uint8Array.of(0x50, 0x4b, 3, 4)),
+      version: P.U16LE,
+      flags: P.bitset(['a', 'b', 'c'], true),
+      name: P.string(P.U16LE),
+      count: P.U8,
+      items: P.array('count', item),
+      rest: P.bytes(null),
+    });
+    eql(P.describe(Item), P.describe(item));
+    eql(P.describe(Header), P.describe(header));
+    const value = {
+      version: 2,
+      flags: { a: true, b: false, c: true },
+      name: 'test',
+      count: 1,
+      items: [
+        {
+          id: 5n,
+          tags: ['a', 'b'],
+          grid: [
+            [1, -2, 3],
+            [4, 5, -6],
+          ],
+          bits: { x: true, y: false, z: false, w: false, a: false, b: false, c: false, d: true },
+          data: 'beef',
+        },
+      ],
+      rest: Uint8Array.of(9),
+    };
+    const bytes = header.encode(value);
+    eql(Header.encode(value), bytes);
+    eql(Header.decode(bytes), header.decode(bytes));
+  });
+  it('recursion', () => {
+    const { Tree } = P.parseSchema('struct Tree { value: u8; children: Tree[u8]; }');
+    const tree = { value: 1, children: [{ value: 2, children: [] }] };
+    eql(Tree.encode(tree), Uint8Array.of(1, 1, 2, 0));
+    eql(Tree.decode(Uint8Array.of(1, 1, 2, 0)), tree);
+    const { A } = P.parseSchema(`
+      struct A { len: u8; b: B; }
+      struct B { data: bytes<../len>; end: u8 = 0; }
+    `);
+    eql(A.decode(Uint8Array.of(2, 7, 8, 0)), {
+      len: 2,
+      b: { data: Uint8Array.of(7, 8), end: undefined },
+    });
+  });
+  it('errors', () => {
+    const err = (text: string, name: string, message: string) =>
+      throws(() => P.parseSchema(text), { name, message: `parseSchema: ${message}` });
+    throws(() => P.parseSchema(1 as any), TypeError);
+    err('struct A { x: u8 }', 'SyntaxError', "expected ';', got '}' (line 1, column 18)");
+    err('struct A {\n  x: Foo;\n}', 'SyntaxError', "unknown type 'Foo' (line 2, column 6)");
+    err('struct A { x: u8; x: u8; }', 'SyntaxError', 'duplicate field x (line 1, column 19)');
+    err('struct A {} struct A {}', 'SyntaxError', 'duplicate type A (line 1, column 20)');
+    err('struct A { x: string; }', 'SyntaxError', 'string: expected length (line 1, column 15)');
+    err(
+      'struct A { x: bitset<4>{a}; }',
+      'SyntaxError',
+      'bitset<4>: expected 1 or 8 bits (line 1, column 15)'
+    );
+    err(
+      'struct A { x: u8[f32le]; }',
+      'SyntaxError',
+      "expected integer length type, got 'f32le' (line 1, column 18)"
+    );
+    err(
+      'struct A { x: bytes[2] = "abc"; }',
+      'SyntaxError',
+      'expected 2 bytes, got 3 (line 1, column 26)'
+    );
+    err('struct A { x: u8 = "\\q"; }', 'SyntaxError', 'invalid escape \\q (line 1, column 20)');
+    err('struct A { x: u8 = ; }', 'SyntaxError', "expected constant, got ';' (line 1, column 20)");
+    err('struct A { x: u8 @ }', 'SyntaxError', "unexpected character '@' (line 1, column 18)");
+    err('struct A { x: "ab', 'SyntaxError', 'unterminated string (line 1, column 15)');
+    err('struct A {', 'SyntaxError', 'expected field name, got end of schema (line 1, column 11)');
+    // Errors from coder factories keep their class
+    err(
+      'struct A { x: bitset{a, a}; }',
+      'Error',
+      'bitset/names: duplicate name a (line 1, column 15)'
+    );
+    throws(() => P.parseSchema('struct A { x: u8 = 256; }'), RangeError);
+  });
+});
+
+describe('checkRoundtrip', () => {
+  it('basic', () => {
+    const check = P.checkRoundtrip(P.struct({ a: P.U8, b: P.cstring, m: P.magic(P.U8, 1) }));
+    check({ a: 1, b: 'x' } as any);
+    check({ a: 1, b: 'x', m: undefined });
+    P.checkRoundtrip(P.array(null, P.bytes(1)))([Uint8Array.of(1)]);
+    // Values outside the coder domain throw from encode
+    throws(() => check({ a: 256, b: 'x' } as any));
+    throws(() => P.checkRoundtrip({} as any), TypeError);
+  });
+  it('mismatch', () => {
+    // Lossy decode: extra key is dropped
+    const lossy = P.struct({ a: P.U8 });
+    throws(() => P.checkRoundtrip(lossy)({ a: 1, b: 2 } as any), {
+      message: 'checkRoundtrip: decode(encode(value)) differs at b',
+    });
+    const upper = P.apply(P.cstring, { encode: (s) => s.toUpperCase(), decode: (s) => s });
+    throws(() => P.checkRoundtrip(P.array(P.U8, upper))(['A', 'b']), {
+      message: 'checkRoundtrip: decode(encode(value)) differs at 1',
+    });
+    // Encoding is not deterministic
+    let count = 0;
+    const counter = P.wrap<number>({
+      encodeStream: (w) => w.byte(count++),
+      decodeStream: (r) => (r.byte(), 0),
+    });
+    throws(() => P.checkRoundtrip(counter)(0), {
+      message: 'checkRoundtrip: encode(decode(bytes)) differs from bytes',
+    });
+  });
+});
+
+describe('PackedError', () => {
+  const fields = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (e) {
+      if (!(e instanceof P.PackedError)) throw e;
+      const { code, path, offset, bitOffset, message } = e;
+      return { code, path, offset, bitOffset, message };
+    }
+    throw new Error('expected error');
+  };
+  it('codes', () => {
+    const s = P.struct({
+      id: P.U8,
+      items: P.array(P.U8, P.struct({ kind: P.map(P.U8, { a: 1, b: 2 }), name: P.cstring })),
+    });
+    eql(
+      fields(() => s.decode(Uint8Array.of(1, 2, 1, 0x61, 0, 2, 0x62))),
+      {
+        code: 'TRUNCATED',
+        path: ['items', 1, 'name'],
+        offset: 6,
+        bitOffset: 0,
+        message: 'Reader(items/1/name): bytes: cannot find terminator',
+      }
+    );
+    eql(
+      fields(() => s.decode(Uint8Array.of(1, 1, 3, 0))),
+      {
+        code: 'UNKNOWN_VARIANT',
+        path: ['items', 0, 'kind'],
+        offset: 3,
+        bitOffset: 0,
+        message: 'Reader(items/0/kind): Enum: unknown value: 3 1,2',
+      }
+    );
+    eql(
+      fields(() => s.encode({ id: 1, items: [{ kind: 'c' as any, name: '' }] })),
+      {
+        code: 'UNKNOWN_VARIANT',
+        path: ['items', 0, 'kind'],
+        offset: 2,
+        bitOffset: 0,
+        message: 'Writer(items/0/kind): Map: unknown variant: c',
+      }
+    );
+    eql(fields(() => P.U8.decode(Uint8Array.of(1, 2))).code, 'UNREAD_BYTES');
+    eql(fields(() => P.uleb128.decode(Uint8Array.of(0x80, 0))).code, 'NON_CANONICAL');
+    eql(fields(() => P.tag(P.U8, { 1: P.U8 }).decode(Uint8Array.of(2, 0))).code, 'UNKNOWN_VARIANT');
+    eql(fields(() => P.magic(P.U8, 1).decode(Uint8Array.of(2))).code, 'INVALID_VALUE');
+    // Bit offsets
+    const bits = P.struct({ a: P.bits(3), b: P.magic(P.bits(2), 1), c: P.bits(3) });
+    eql(
+      fields(() => bits.decode(Uint8Array.of(0))),
+      {
+        code: 'INVALID_VALUE',
+        path: ['b'],
+        offset: 0,
+        bitOffset: 5,
+        message: 'Reader(b): magic: invalid value: 0 !== 1',
+      }
+    );
+    // Offsets inside nested payloads count from the start of the input
+    const pref = P.struct({ pad: P.U32BE, x: P.prefix(P.U8, P.struct({ a: P.U8, b: P.U16BE })) });
+    const data = Uint8Array.of(0, 0, 0, 0, 2, 1, 2);
+    eql(fields(() => pref.decode(data)).offset, 6);
+    eql((P.decodePartial(pref, data) as any).offset, 6);
+    const mp = P.struct({ pad: P.U16BE, v: P.msgpack });
+    eql(fields(() => mp.decode(Uint8Array.of(0, 0, 0x92, 1, 0xc1))).offset, 5);
+    const pb = P.protobuf.message({ m: [1, P.protobuf.message({ n: [1, P.protobuf.uint32] })] });
+    eql(fields(() => pb.decode(Uint8Array.of(0x0a, 0x02, 0x08, 0x80))).offset, 4);
+  });
+  it('type and range errors', () => {
+    const s = P.struct({ a: P.U8 });
+    throws(() => s.encode({ a: 256 }), P.PackedRangeError);
+    throws(() => s.encode({ a: 256 }), RangeError);
+    throws(() => s.encode({ a: 'x' as any }), P.PackedTypeError);
+    throws(() => s.encode({ a: 'x' as any }), TypeError);
+    throws(() => s.encode({ a: 'x' as any }), P.PackedError);
+    eql(fields(() => s.encode({ a: 256 })).code, 'OUT_OF_RANGE');
+    eql(
+      fields(() => s.encode({ a: 'x' as any })),
+      {
+        code: 'INVALID_TYPE',
+        path: ['a'],
+        offset: 0,
+        bitOffset: 0,
+        message: 'Writer(a): viewCoder: expected number, got string',
+      }
+    );
+    // Other errors are not PackedError
+    eql(new TypeError('x') instanceof P.PackedError, false);
+    eql(new RangeError('x') instanceof P.PackedError, false);
+    eql(null instanceof P.PackedError, false);
+    eql(
+      new P.PackedError('x', { code: 'TRUNCATED', path: [], offset: 0, bitOffset: 0 }) instanceof
+        TypeError,
+      false
+    );
+    // Prefixed values are coded in place: same path in both directions
+    const pref = P.struct({ x: P.prefix(P.U8, P.struct({ a: P.U16LE })) });
+    throws(() => pref.encode({ x: { a: 65536 } }), {
+      name: 'RangeError',
+      message: 'Writer(x/a): uintView: value out of bounds. Expected 0 <= 65536 < 65536',
+    });
+    throws(() => pref.decode(Uint8Array.of(1, 0)), {
+      name: 'Error',
+      message: 'Reader(x/a): readView: Unexpected end of buffer',
+    });
+  });
+  it('cause and custom codes', () => {
+    const inner = new Error('no zeros');
+    const v = P.validate(P.U8, (x) => {
+      if (!x) throw inner;
+      return x;
+    });
+    try {
+      v.decode(Uint8Array.of(0));
+      throw new Error('expected error');
+    } catch (e) {
+      eql(e instanceof P.PackedError, true);
+      eql((e as P.PackedError).cause, inner);
+      eql((e as P.PackedError).message, 'Reader(): no zeros');
+      eql((e as P.PackedError).name, 'Error');
+    }
+    // String messages have no cause
+    eql('cause' in (fields(() => P.U8.decode(P.EMPTY)) as object), false);
+    const even = P.wrap<number>({
+      encodeStream: (w, value) => P.U8.encodeStream(w, value),
+      decodeStream: (r) => {
+        const res = P.U8.decodeStream(r);
+        if (res % 2) throw r.err(`odd value ${res}`, 'OUT_OF_RANGE');
+        return res;
+      },
+    });
+    eql(
+      fields(() => P.array(null, even).decode(Uint8Array.of(2, 3))),
+      {
+        code: 'OUT_OF_RANGE',
+        path: [1],
+        offset: 2,
+        bitOffset: 0,
+        message: 'Reader(1): odd value 3',
+      }
+    );
+    // Pointer offsets are in the whole input
+    const ptr = P.struct({ a: P.U8, p: P.pointer(P.U8, P.magic(P.U8, 7)) });
+    eql(fields(() => ptr.decode(Uint8Array.of(1, 2, 5))).offset, 3);
+  });
+});
+
+describe('check', () => {
+  it('collects all issues', () => {
+    const User = P.struct({
+      age: P.U8,
+      role: P.map(P.U8, { admin: 1, user: 2 }),
+      tags: P.array(P.U8, P.U8),
+      id: P.bytes(2),
+    });
+    eql(P.check(User, { age: 3, role: 'user', tags: [1], id: new Uint8Array(2) }), []);
+    eql(P.check(User, { age: 300, role: 'root', tags: [1, -1], id: new Uint8Array(3) } as any), [
+      { path: ['age'], message: 'uintView: value out of bounds. Expected 0 <= 300 < 256' },
+      { path: ['role'], message: 'Map: unknown variant: root' },
+      { path: ['tags', 1], message: 'uintView: value out of bounds. Expected 0 <= -1 < 256' },
+      { path: ['id'], message: 'Wrong length: 2 len=2 exp=3 (number)' },
+    ]);
+    // Same value encodes with the first issue only
+    throws(
+      () => User.encode({ age: 300, role: 'root', tags: [1, -1], id: new Uint8Array(3) } as any),
+      {
+        message: 'Writer(age): uintView: value out of bounds. Expected 0 <= 300 < 256',
+      }
+    );
+  });
+  it('nested', () => {
+    const c = P.struct({
+      n: P.U8,
+      items: P.array('n', P.tuple([P.U8, P.I8])),
+      big: P.U64LE,
+      v: P.validate(P.U8, (x) => {
+        if (x > 5) throw new Error('too big');
+        return x;
+      }),
+    });
+    eql(P.check(c, { n: 3, items: [[1, 200], null, [-1, -200]], big: 2n ** 64n, v: 7 } as any), [
+      {
+        path: ['items', 0, 1],
+        message: 'sintView: value out of bounds. Expected -128 <= 200 < 128',
+      },
+      { path: ['items', 1], message: 'tuple: invalid value null' },
+      { path: ['items', 2, 0], message: 'uintView: value out of bounds. Expected 0 <= -1 < 256' },
+      {
+        path: ['items', 2, 1],
+        message: 'sintView: value out of bounds. Expected -128 <= -200 < 128',
+      },
+      {
+        path: ['big'],
+        message:
+          'value out of unsigned bounds. Expected 0 <= 18446744073709551616 < 18446744073709551616',
+      },
+      { path: ['v'], message: 'too big' },
+    ]);
+    eql(P.check(c, { n: 2, items: [[1, 1]], big: 0n, v: 0 }), [
+      { path: ['items'], message: 'Wrong length: 2 len=../n exp=1 (number)' },
+    ]);
+  });
+  it('bits and root errors', () => {
+    const bits = P.struct({ a: P.bits(3), b: P.bits(5), c: P.U8 });
+    // Failed bit fields do not misalign the rest
+    eql(P.check(bits, { a: 9, b: 1, c: 1 }), [
+      { path: ['a'], message: 'writeBits: value (9) >= 2**bits (3)' },
+    ]);
+    eql(P.check(P.bits(3), 1), [{ path: [], message: 'buffer: ends with non-empty bit buffer' }]);
+    eql(P.check(P.U8, 'x' as any), [
+      { path: [], message: 'viewCoder: expected number, got string' },
+    ]);
+    eql(P.check(P.array(Uint8Array.of(0), P.U8), [1, 0]), [
+      { path: [1], message: 'array: inner element encoding same as separator. elm=0 data=0' },
+    ]);
+    throws(() => P.check({} as any, 1), TypeError);
+  });
+});
+
+describe('limits', () => {
+  const code = (fn: () => unknown, code: string) =>
+    throws(fn, (e: any) => e instanceof P.PackedError && e.code === code);
+  it('array and bytes length', () => {
+    // Rejected from the length prefix alone, before any element is decoded
+    const arr = P.array(P.U32BE, P.cstring);
+    code(
+      () => arr.decode(Uint8Array.of(0xff, 0xff, 0xff, 0xff), { maxArrayLength: 100 }),
+      'MAX_ARRAY_LENGTH'
+    );
+    eql(arr.decode(Uint8Array.of(0, 0, 0, 2, 0, 0), { maxArrayLength: 2 }), ['', '']);
+    code(
+      () => P.array(null, P.U8).decode(new Uint8Array(3), { maxArrayLength: 2 }),
+      'MAX_ARRAY_LENGTH'
+    );
+    code(
+      () => P.array(Uint8Array.of(0), P.U8).decode(Uint8Array.of(1, 2, 0), { maxArrayLength: 1 }),
+      'MAX_ARRAY_LENGTH'
+    );
+    code(
+      () =>
+        P.typedArray(P.U8, 'u16le').decode(Uint8Array.of(3, 0, 0, 0, 0, 0, 0), {
+          maxArrayLength: 2,
+        }),
+      'MAX_ARRAY_LENGTH'
+    );
+    code(
+      () => P.bytes(P.U8).decode(Uint8Array.of(3, 1, 2, 3), { maxBytesLength: 2 }),
+      'MAX_BYTES_LENGTH'
+    );
+    code(
+      () => P.cstring.decode(Uint8Array.of(97, 97, 97, 0), { maxBytesLength: 2 }),
+      'MAX_BYTES_LENGTH'
+    );
+    eql(P.string(P.U8).decode(Uint8Array.of(2, 97, 98), { maxBytesLength: 2 }), 'ab');
+    // Limits reach values nested inside prefix
+    const pref = P.struct({ inner: P.prefix(P.U8, P.array(P.U8, P.U8)) });
+    throws(() => pref.decode(Uint8Array.of(3, 2, 1, 2), { maxArrayLength: 1 }), {
+      message: 'Reader(inner/arrayLen): array: length=2 exceeds maxArrayLength=1',
+    });
+    for (const k of ['maxArrayLength', 'maxBytesLength', 'maxDepth', 'maxElements'])
+      throws(() => P.U8.decode(Uint8Array.of(1), { [k]: -1 }), TypeError);
+  });
+  it('depth and elements', () => {
+    type Tree = { children: Tree[] };
+    const tree: P.CoderType<Tree> = P.struct({
+      children: P.array(
+        P.U8,
+        P.lazy(() => tree)
+      ),
+    });
+    // Each level is a struct and an array
+    const deep = Uint8Array.of(1, 1, 0);
+    eql(tree.decode(deep, { maxDepth: 6 }), {
+      children: [{ children: [{ children: [] }] }],
+    });
+    throws(
+      () => tree.decode(deep, { maxDepth: 5 }),
+      (e: any) => {
+        eql(e.code, 'MAX_DEPTH');
+        eql(e.path, ['children', 0, 'children', 0, 'children']);
+        return true;
+      }
+    );
+    // Budget is shared by all arrays, also across pointers
+    const list = P.struct({ a: P.array(P.U8, P.U8), b: P.pointer(P.U8, P.array(P.U8, P.U8)) });
+    const data = Uint8Array.of(2, 1, 2, 4, 2, 3, 4);
+    eql(list.decode(data, { maxElements: 4 }), { a: [1, 2], b: [3, 4] });
+    code(() => list.decode(data, { maxElements: 3 }), 'MAX_ELEMENTS');
+    // Typed arrays count, tuple fields don't
+    const typed = P.typedArray(P.U8, 'u8');
+    eql(typed.decode(Uint8Array.of(2, 1, 2), { maxElements: 2 }), Uint8Array.of(1, 2));
+    code(() => typed.decode(Uint8Array.of(3, 1, 2, 3), { maxElements: 2 }), 'MAX_ELEMENTS');
+    const tuple = P.tuple([P.U8, P.U8, P.U8]);
+    eql(tuple.decode(Uint8Array.of(1, 2, 3), { maxElements: 0 }), [1, 2, 3]);
+    const rows = P.array(P.U8, P.tuple([P.U8, P.U8]));
+    eql(rows.decode(Uint8Array.of(2, 1, 2, 3, 4), { maxElements: 2 }), [
+      [1, 2],
+      [3, 4],
+    ]);
+  });
+  it('formats', () => {
+    const bytes = { maxBytesLength: 2 };
+    const arr = { maxArrayLength: 2 };
+    const check = (c: P.CoderType<any>, h: string, opts: P.ReaderOpts, err: string) => {
+      c.decode(hex.decode(h));
+      code(() => c.decode(hex.decode(h), opts), err);
+    };
+    // CBOR: byte/text strings (also indefinite), arrays and maps (also indefinite)
+    check(P.cbor, '4a' + '00'.repeat(10), bytes, 'MAX_BYTES_LENGTH');
+    check(P.cbor, '63616263', bytes, 'MAX_BYTES_LENGTH');
+    check(P.cbor, '5f4201024203044105ff', { maxBytesLength: 3 }, 'MAX_BYTES_LENGTH');
+    check(P.cbor, '83010203', arr, 'MAX_ARRAY_LENGTH');
+    check(P.cbor, '9f010203ff', arr, 'MAX_ARRAY_LENGTH');
+    check(P.cbor, 'a3010102020303', arr, 'MAX_ARRAY_LENGTH');
+    eql(P.cbor.decode(hex.decode('820102'), arr), [1, 2]);
+    // Length is checked before input: huge lengths are not treated as truncated input
+    code(() => P.cbor.decode(hex.decode('5b00000000ffffffff'), bytes), 'MAX_BYTES_LENGTH');
+    // MessagePack: bin, str, ext, arrays and maps
+    check(P.msgpack, 'c403010203', bytes, 'MAX_BYTES_LENGTH');
+    check(P.msgpack, 'a3616263', bytes, 'MAX_BYTES_LENGTH');
+    check(P.msgpack, 'c70301010203', bytes, 'MAX_BYTES_LENGTH');
+    check(P.msgpack, '93010203', arr, 'MAX_ARRAY_LENGTH');
+    check(P.msgpack, '83010102020303', arr, 'MAX_ARRAY_LENGTH');
+    // RLP: byte strings and list items
+    check(P.rlp, '83010203', bytes, 'MAX_BYTES_LENGTH');
+    check(P.rlp, 'c3010203', arr, 'MAX_ARRAY_LENGTH');
+    // Protobuf: length-delimited records (also unknown fields) and repeated fields
+    const pb = P.protobuf;
+    const Msg = pb.message({ b: [1, pb.bytes], n: [2, pb.repeated(pb.uint32)] });
+    check(Msg, '0a03010203', bytes, 'MAX_BYTES_LENGTH');
+    check(Msg, '1a03010203', bytes, 'MAX_BYTES_LENGTH');
+    check(Msg, '100110021003', arr, 'MAX_ARRAY_LENGTH');
+    check(Msg, '1203010203', arr, 'MAX_ARRAY_LENGTH');
+    // ASN.1: primitive contents and SEQUENCE OF / SET OF elements
+    const A = P.asn1;
+    check(A.octetString, '0403010203', bytes, 'MAX_BYTES_LENGTH');
+    check(A.any, '0c03616263', bytes, 'MAX_BYTES_LENGTH');
+    check(A.sequenceOf(A.null), '3006050005000500', arr, 'MAX_ARRAY_LENGTH');
+    check(A.setOf(A.null), '3106050005000500', arr, 'MAX_ARRAY_LENGTH');
+    eql(A.sequence({ a: A.octetString }).decode(hex.decode('30040402aabb'), bytes), {
+      a: hex.decode('aabb'),
+    });
+  });
+});
+
+describe('decodePartial', () => {
+  const Rec = P.struct({
+    id: P.U8,
+    items: P.array(P.U8, P.struct({ n: P.U8, name: P.cstring })),
+  });
+  it('basic', () => {
+    eql(P.decodePartial(Rec, Uint8Array.of(7, 1, 1, 97, 0)), {
+      ok: true,
+      value: { id: 7, items: [{ n: 1, name: 'a' }] },
+    });
+    const res = P.decodePartial(Rec, Uint8Array.of(7, 2, 1, 97, 0, 2, 98));
+    if (res.ok) throw new Error('expected failure');
+    eql(res.value, { id: 7, items: [{ n: 1, name: 'a' }, { n: 2 }] });
+    eql(res.path, ['items', 1, 'name']);
+    eql(res.offset, 6);
+    eql(res.error.code, 'TRUNCATED');
+    eql(res.error.message, 'Reader(items/1/name): bytes: cannot find terminator');
+  });
+  it('complete value and primitives', () => {
+    // Trailing bytes: value is complete, only the end check failed
+    const res = P.decodePartial(Rec, Uint8Array.of(7, 0, 1));
+    eql(
+      [res.ok, res.value, !res.ok && res.error.code],
+      [false, { id: 7, items: [] }, 'UNREAD_BYTES']
+    );
+    const prim = P.decodePartial(P.U16BE, Uint8Array.of(1));
+    eql([prim.ok, prim.value, !prim.ok && prim.path], [false, undefined, []]);
+    // Plain errors from custom coders are wrapped with the path
+    const custom = P.struct({
+      a: P.U8,
+      b: P.wrap({
+        encodeStream: () => {},
+        decodeStream: () => {
+          throw new Error('bad');
+        },
+      }),
+    });
+    const res2 = P.decodePartial(custom, Uint8Array.of(1));
+    if (res2.ok) throw new Error('expected failure');
+    eql([res2.value, res2.error.message], [{ a: 1 }, 'Reader(b): bad']);
+    throws(() => P.decodePartial({} as any, new Uint8Array()), TypeError);
+    throws(() => P.decodePartial(P.U8, [] as any), TypeError);
+    throws(() => P.decodePartial(P.U8, Uint8Array.of(1), { maxDepth: -1 }), TypeError);
+  });
+});
+
 describe('coders', () => {
   it('number', () => {
     eql(P.coders.numberBigint.encode(1000n), 1000);